@@ -1,12 +1,20 @@
-import { Link } from 'react-router-dom'
+import { useEffect } from 'react'
+import { Link, useLocation } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { ArrowRight, Globe, Users, CheckCircle, Sparkles, Plane, Shield, TrendingUp } from 'lucide-react'
 import { useLanguage } from '@/content/LanguageContext'
 import { getCountryFlag } from '@/lib/countryFlags'
+import { captureReferralCode } from '@/lib/referral'
 
 function App() {
   const { content } = useLanguage();
+  const { search } = useLocation()
+
+  // Landing links from agents and channels carry ?ref=CODE
+  useEffect(() => {
+    captureReferralCode(search)
+  }, [search])
   
   const popularCountries = ['Germany', 'Canada', 'Australia', 'United States', 'United Kingdom', 'Netherlands']
   
@@ -46,7 +54,7 @@ function App() {
               size="lg" 
               className="text-lg px-8 py-7 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white shadow-xl hover:shadow-2xl transition-all duration-300 transform hover:scale-105 rounded-xl font-semibold"
             >
-              <Link to="/apply" className="flex items-center justify-center gap-2">
+              <Link to="/eligibility" className="flex items-center justify-center gap-2">
                 {content.homepage.primaryButtonText}
                 <ArrowRight className="h-5 w-5 group-hover:translate-x-1 transition-transform" />
               </Link>
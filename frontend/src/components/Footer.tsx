@@ -3,7 +3,7 @@ import { Home, ExternalLink, Instagram, Linkedin, Youtube, Twitter } from 'lucid
 
 export default function Footer() {
   return (
-    <footer className="bg-gradient-to-br from-blue-900 via-blue-800 to-indigo-900 text-gray-200 mt-auto border-t border-blue-700/50">
+    <footer className="print:hidden bg-gradient-to-br from-blue-900 via-blue-800 to-indigo-900 text-gray-200 mt-auto border-t border-blue-700/50">
       <div className="container mx-auto px-4 py-12">
         <div className="grid md:grid-cols-3 gap-8">
           <div>
@@ -1,71 +1,24 @@
 import { Link, useNavigate, useLocation } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { useAuth } from '@/modules/auth/AuthContext'
-import { logout, getAccessToken } from '@/services/auth'
-import { LogOut, Home, LayoutDashboard, Briefcase, Mail } from 'lucide-react'
+import { LogOut, Home, LayoutDashboard, Briefcase, Mail, Receipt, UserCircle } from 'lucide-react'
 import LanguageSwitcher from './LanguageSwitcher'
 import { cn } from '@/lib/utils'
-import { useEffect, useState } from 'react'
-import { fetchUserDashboard } from '@/services/api'
+import { useSubscription } from '@/modules/subscription/SubscriptionContext'
 
 export default function Navigation() {
-  const { user, setToken, setUser } = useAuth()
+  const { token, user, logout } = useAuth()
+  const { isActive: hasValidSubscription, loading: isChecking } = useSubscription()
   const navigate = useNavigate()
   const location = useLocation()
-  const [hasValidSubscription, setHasValidSubscription] = useState(false)
-  const [isChecking, setIsChecking] = useState(true)
-
-  useEffect(() => {
-    const checkSubscription = async () => {
-      const token = getAccessToken()
-      if (!token || !user) {
-        setHasValidSubscription(false)
-        setIsChecking(false)
-        return
-      }
-
-      try {
-        const dashboardRes = await fetchUserDashboard()
-        if (dashboardRes.ok) {
-          // Check subscription_status directly (same logic as UserGuard)
-          const subscriptionStatus = dashboardRes.subscription_status
-          const subscriptionEndDate = dashboardRes.subscription_end_date
-          
-          let hasActive = subscriptionStatus === 'active'
-          
-          // Check if subscription hasn't expired
-          if (hasActive && subscriptionEndDate) {
-            const endDate = new Date(subscriptionEndDate)
-            const today = new Date()
-            today.setHours(0, 0, 0, 0)
-            hasActive = endDate >= today
-          }
-          
-          setHasValidSubscription(hasActive)
-        } else {
-          setHasValidSubscription(false)
-        }
-      } catch (error) {
-        console.error('Error checking subscription:', error)
-        setHasValidSubscription(false)
-      } finally {
-        setIsChecking(false)
-      }
-    }
-
-    checkSubscription()
-  }, [user, location.pathname]) // Re-check when route changes
 
   const handleLogout = () => {
     logout()
-    setToken(null)
-    setUser(null)
     navigate('/')
   }
 
   const isActive = (path: string) => location.pathname === path
   const isHomePage = location.pathname === '/'
-  const token = getAccessToken()
   const isAuthenticated = token && user
   const shouldShowNav = isAuthenticated && !isChecking && hasValidSubscription
 
@@ -78,7 +31,7 @@ export default function Navigation() {
   }
 
   return (
-    <nav className="bg-gradient-to-r from-blue-600 via-blue-500 to-blue-600 border-b border-blue-400/20 shadow-lg sticky top-0 z-50 backdrop-blur-sm">
+    <nav className="print:hidden bg-gradient-to-r from-blue-600 via-blue-500 to-blue-600 border-b border-blue-400/20 shadow-lg sticky top-0 z-50 backdrop-blur-sm">
       <div className="container mx-auto px-4">
         <div className="flex justify-between items-center h-16">
           <Link 
@@ -171,6 +124,38 @@ export default function Navigation() {
                     <span className="hidden sm:inline">Job Sites</span>
                   </Link>
                 </Button>
+                <Button 
+                  asChild 
+                  variant={location.pathname.startsWith('/account/payments') ? 'secondary' : 'ghost'} 
+                  size="sm"
+                  className={cn(
+                    "transition-all duration-200",
+                    location.pathname.startsWith('/account/payments') 
+                      ? "bg-white text-primary shadow-md" 
+                      : "text-white hover:bg-white/20 hover:text-white"
+                  )}
+                >
+                  <Link to="/account/payments" className="flex items-center gap-2">
+                    <Receipt className="h-4 w-4" />
+                    <span className="hidden sm:inline">Payments</span>
+                  </Link>
+                </Button>
+                <Button 
+                  asChild 
+                  variant={location.pathname === '/profile' ? 'secondary' : 'ghost'} 
+                  size="sm"
+                  className={cn(
+                    "transition-all duration-200",
+                    location.pathname === '/profile' 
+                      ? "bg-white text-primary shadow-md" 
+                      : "text-white hover:bg-white/20 hover:text-white"
+                  )}
+                >
+                  <Link to="/profile" className="flex items-center gap-2">
+                    <UserCircle className="h-4 w-4" />
+                    <span className="hidden sm:inline">Profile</span>
+                  </Link>
+                </Button>
                 <span className="text-sm text-white/90 hidden lg:inline px-3 font-medium">
                   Welcome, {user.name || user.email}
                 </span>
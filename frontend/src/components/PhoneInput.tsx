@@ -0,0 +1,93 @@
+import { useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { DIAL_CODES, formatNational, splitPhone, toE164 } from '@/lib/phone'
+import { cn } from '@/lib/utils'
+
+interface PhoneInputProps {
+  id?: string
+  /** E.164 number, or '' when empty */
+  value: string
+  onChange: (value: string) => void
+  onBlur?: () => void
+  placeholder?: string
+  invalid?: boolean
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Calling code selector plus national number, emitting E.164 on every change
+ */
+export default function PhoneInput({ id, value, onChange, onBlur, placeholder, invalid, disabled, className }: PhoneInputProps) {
+  const [dial, setDial] = useState(() => splitPhone(value).dial)
+  const [national, setNational] = useState(() => {
+    const parts = splitPhone(value)
+    return formatNational(parts.dial, parts.national)
+  })
+  // The last value we emitted; anything else coming in was set from outside (reset, draft resume)
+  const [emitted, setEmitted] = useState(value)
+
+  if (value !== emitted) {
+    const parts = splitPhone(value)
+    setDial(parts.dial)
+    setNational(formatNational(parts.dial, parts.national))
+    setEmitted(value)
+  }
+
+  const selected = DIAL_CODES.find(code => code.dial === dial)
+
+  const emit = (nextDial: string, nextNational: string) => {
+    const next = toE164(nextDial, nextNational)
+    setEmitted(next)
+    onChange(next)
+  }
+
+  return (
+    <div className={cn('flex gap-2', className)}>
+      <Select
+        value={dial}
+        onValueChange={nextDial => {
+          setDial(nextDial)
+          emit(nextDial, national)
+        }}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-28 shrink-0" aria-label="Country calling code">
+          <SelectValue>
+            {selected ? `${selected.flag} +${selected.dial}` : `+${dial}`}
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {DIAL_CODES.map(code => (
+            <SelectItem key={code.iso} value={code.dial}>
+              <span className="flex items-center gap-2">
+                <span className="text-lg">{code.flag}</span>
+                +{code.dial}
+                <span className="text-muted-foreground text-xs">{code.name}</span>
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        id={id}
+        type="tel"
+        inputMode="tel"
+        autoComplete="tel-national"
+        placeholder={placeholder ?? (dial === '251' ? '91 123 4567' : '')}
+        value={national}
+        onChange={e => {
+          setNational(e.target.value)
+          emit(dial, e.target.value)
+        }}
+        onBlur={() => {
+          setNational(formatNational(dial, national))
+          onBlur?.()
+        }}
+        aria-invalid={invalid}
+        disabled={disabled}
+      />
+    </div>
+  )
+}
@@ -2,7 +2,7 @@ import React, { createContext, useContext, useState } from 'react';
 import type { ReactNode } from 'react';
 import websiteContent from './websiteContent';
 
-type Language = 'en' | 'am';
+export type Language = 'en' | 'am';
 
 interface LanguageContextType {
   currentLanguage: Language;
@@ -61,13 +61,20 @@ const websiteContent = {
       preferredCountryLabel: "Preferred Country",
       desiredStartDateLabel: "Desired Start Date",
       desiredSalaryLabel: "Desired Salary (Optional)",
-      continueToPayment: "Continue to Payment"
+      continueToPayment: "Continue to Payment",
+      // Final step - Review
+      reviewTitle: "Review Your Application",
+      reviewSubtitle: "Check your details before we create your account",
+      editLabel: "Edit",
+      backToReview: "Back to Review",
+      acceptTermsLabel: "I have checked my details and I agree to the Terms and Conditions."
     },
     dashboard: {
       welcome: "Welcome",
       welcomeSubtitle: "Your personalized job search dashboard is ready. Explore curated opportunities below.",
       targetCountry: "Target Country",
       preferredDestination: "Your preferred destination",
+      editProfile: "Edit profile",
       availableJobSites: "Available Job Sites",
       accountStatus: "Account Status",
       active: "Active",
@@ -91,7 +98,14 @@ const websiteContent = {
       explorePopularDestinations: "Explore job sites from the most popular destinations",
       site: "site",
       sites: "sites",
-      goToSite: "Go to Site"
+      goToSite: "Go to Site",
+      daysRemaining: "days remaining",
+      dayRemaining: "day remaining",
+      expiresToday: "Expires today",
+      expiresOn: "Expires on",
+      expiringSoonTitle: "Your subscription is ending soon",
+      expiringSoonMessage: "Renew now to keep uninterrupted access to your curated job sites.",
+      renewNow: "Renew now"
     },
     sites: {
       title: "Job Sites",
@@ -169,13 +183,20 @@ const websiteContent = {
       preferredCountryLabel: "ተመራጭ አገር",
       desiredStartDateLabel: "የሚፈለገው የመጀመሪያ ቀን",
       desiredSalaryLabel: "የሚፈለገው ደመወዝ (አማራጭ)",
-      continueToPayment: "ወደ ክፍያ ይቀጥሉ"
+      continueToPayment: "ወደ ክፍያ ይቀጥሉ",
+      // Final step - Review
+      reviewTitle: "ማመልከቻዎን ይገምግሙ",
+      reviewSubtitle: "መለያዎን ከመፍጠራችን በፊት ዝርዝሮችዎን ያረጋግጡ",
+      editLabel: "አስተካክል",
+      backToReview: "ወደ ግምገማ ተመለስ",
+      acceptTermsLabel: "ዝርዝሮቼን አረጋግጫለሁ እና በውሎች እና ሁኔታዎች እስማማለሁ።"
     },
     dashboard: {
       welcome: "እንኳን ደህና መጣህ",
       welcomeSubtitle: "ለግል የተበጀው የስራ ፍለጋ ዳሽቦርድዎ ዝግጁ ነው። ከዚህ በታች የተመደቡ እድሎችን ያስሱ።",
       targetCountry: "ዒላማ አገር",
       preferredDestination: "የእርስዎ ተመራጭ መድረሻ",
+      editProfile: "መገለጫ አስተካክል",
       availableJobSites: "የሚገኙ የስራ ቦታዎች",
       accountStatus: "የመለያ ሁኔታ",
       active: "ንቁ",
@@ -199,7 +220,14 @@ const websiteContent = {
       explorePopularDestinations: "ከታዋቂ መድረሻዎች የስራ ቦታዎችን ያስሱ",
       site: "ቦታ",
       sites: "ቦታዎች",
-      goToSite: "ወደ ቦታው ይሂዱ"
+      goToSite: "ወደ ቦታው ይሂዱ",
+      daysRemaining: "ቀናት ቀርተዋል",
+      dayRemaining: "ቀን ቀርቷል",
+      expiresToday: "ዛሬ ያበቃል",
+      expiresOn: "የሚያበቃበት ቀን",
+      expiringSoonTitle: "የደንበኝነት ምዝገባዎ በቅርቡ ያበቃል",
+      expiringSoonMessage: "የተመረጡ የስራ ቦታዎችን ያለማቋረጥ ለማግኘት አሁን ያድሱ።",
+      renewNow: "አሁን ያድሱ"
     },
     sites: {
       title: "የስራ ቦታዎች",
@@ -0,0 +1,41 @@
+/**
+ * Cooldown for resending the verification email. The send time is kept in
+ * localStorage per address, so the "check your inbox" screen, the dashboard
+ * banner and a page reload all share one cooldown.
+ */
+
+const SENT_KEY = 'verification_sent'
+
+export const RESEND_COOLDOWN_SECONDS = 60
+
+type SentTimes = Record<string, number>
+
+const keyFor = (email: string) => email.trim().toLowerCase()
+
+function readSentTimes(): SentTimes {
+  try {
+    const raw = localStorage.getItem(SENT_KEY)
+    return raw ? JSON.parse(raw) : {}
+  } catch {
+    return {}
+  }
+}
+
+/** Record that the backend just sent (or was asked to send) a verification email */
+export function markVerificationSent(email: string, cooldownSeconds = RESEND_COOLDOWN_SECONDS): void {
+  const times = readSentTimes()
+  // Stored as when the cooldown ends, so a server-imposed wait can be longer than ours
+  times[keyFor(email)] = Date.now() + cooldownSeconds * 1000
+  try {
+    localStorage.setItem(SENT_KEY, JSON.stringify(times))
+  } catch {
+    // Storage unavailable; the cooldown just won't survive a reload
+  }
+}
+
+/** Whole seconds left before another email may be requested, 0 when allowed */
+export function secondsUntilResend(email: string): number {
+  const until = readSentTimes()[keyFor(email)]
+  if (!until) return 0
+  return Math.max(0, Math.ceil((until - Date.now()) / 1000))
+}
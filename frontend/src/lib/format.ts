@@ -0,0 +1,44 @@
+/**
+ * Display formatting for money, file sizes and timestamps coming from the backend
+ */
+
+/**
+ * Format an amount (the backend sends decimals as strings) with its currency
+ * @example formatCurrency('600.00') // "600 ETB"
+ */
+export function formatCurrency(amount: string | number, currency = 'ETB'): string {
+  const value = typeof amount === 'number' ? amount : Number.parseFloat(amount)
+  if (Number.isNaN(value)) return `${amount} ${currency}`
+  const formatted = value.toLocaleString('en-US', {
+    minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
+    maximumFractionDigits: 2,
+  })
+  return `${formatted} ${currency}`
+}
+
+/** "1 month", "3 months" */
+export function formatMonths(months: number): string {
+  return months === 1 ? '1 month' : `${months} months`
+}
+
+/** "820 KB", "2.4 MB" */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Format an ISO timestamp as a readable local date and time
+ */
+export function formatDateTime(value: string, locale?: string): string {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return value
+  return date.toLocaleString(locale, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
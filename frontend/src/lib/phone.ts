@@ -0,0 +1,101 @@
+/**
+ * Phone number helpers. Numbers are stored and sent in E.164 (`+251911234567`)
+ * and only formatted for display.
+ */
+
+export interface DialCode {
+  iso: string
+  name: string
+  /** Country calling code without the plus */
+  dial: string
+  flag: string
+}
+
+export const DEFAULT_DIAL_CODE = '251'
+
+// Ethiopia first, then the countries most of our applicants and their families call from
+export const DIAL_CODES: DialCode[] = [
+  { iso: 'ET', name: 'Ethiopia', dial: '251', flag: '🇪🇹' },
+  { iso: 'KE', name: 'Kenya', dial: '254', flag: '🇰🇪' },
+  { iso: 'DJ', name: 'Djibouti', dial: '253', flag: '🇩🇯' },
+  { iso: 'SA', name: 'Saudi Arabia', dial: '966', flag: '🇸🇦' },
+  { iso: 'AE', name: 'United Arab Emirates', dial: '971', flag: '🇦🇪' },
+  { iso: 'QA', name: 'Qatar', dial: '974', flag: '🇶🇦' },
+  { iso: 'KW', name: 'Kuwait', dial: '965', flag: '🇰🇼' },
+  { iso: 'IL', name: 'Israel', dial: '972', flag: '🇮🇱' },
+  { iso: 'US', name: 'United States / Canada', dial: '1', flag: '🇺🇸' },
+  { iso: 'GB', name: 'United Kingdom', dial: '44', flag: '🇬🇧' },
+  { iso: 'DE', name: 'Germany', dial: '49', flag: '🇩🇪' },
+  { iso: 'NL', name: 'Netherlands', dial: '31', flag: '🇳🇱' },
+  { iso: 'SE', name: 'Sweden', dial: '46', flag: '🇸🇪' },
+  { iso: 'IT', name: 'Italy', dial: '39', flag: '🇮🇹' },
+  { iso: 'ES', name: 'Spain', dial: '34', flag: '🇪🇸' },
+  { iso: 'PL', name: 'Poland', dial: '48', flag: '🇵🇱' },
+  { iso: 'LU', name: 'Luxembourg', dial: '352', flag: '🇱🇺' },
+]
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '')
+
+/**
+ * Split a stored number into calling code and national number.
+ * Anything without a leading plus is treated as a local Ethiopian number.
+ */
+export function splitPhone(value: string): { dial: string; national: string } {
+  const trimmed = value.trim()
+  if (!trimmed.startsWith('+')) return { dial: DEFAULT_DIAL_CODE, national: digitsOnly(trimmed) }
+  const digits = digitsOnly(trimmed)
+  // Longest match first so +1 doesn't swallow longer codes
+  const match = [...DIAL_CODES]
+    .sort((a, b) => b.dial.length - a.dial.length)
+    .find(code => digits.startsWith(code.dial))
+  return match
+    ? { dial: match.dial, national: digits.slice(match.dial.length) }
+    : { dial: DEFAULT_DIAL_CODE, national: digits }
+}
+
+/** Combine into E.164; returns '' when no national digits were entered */
+export function toE164(dial: string, national: string): string {
+  let digits = digitsOnly(national)
+  // People paste the full international number into the national field
+  if (digits.startsWith(dial) && digits.length > dial.length + 6) digits = digits.slice(dial.length)
+  // Drop the trunk prefix, e.g. Ethiopian 0911... → 911...
+  digits = digits.replace(/^0+/, '')
+  return digits ? `+${dial}${digits}` : ''
+}
+
+export function normalizePhone(value: string): string {
+  const { dial, national } = splitPhone(value)
+  return toE164(dial, national)
+}
+
+export type PhoneProblem = 'invalid' | 'ethiopian-prefix'
+
+/**
+ * Ethiopian mobiles are 9 digits after +251 starting with 9 (Ethio Telecom) or 7 (Safaricom);
+ * elsewhere we only check the E.164 length limits.
+ */
+export function validatePhone(value: string): PhoneProblem | null {
+  const e164 = normalizePhone(value)
+  const { dial, national } = splitPhone(e164)
+  if (dial === '251') {
+    if (!/^\d{9}$/.test(national)) return 'invalid'
+    return /^[79]/.test(national) ? null : 'ethiopian-prefix'
+  }
+  return /^\+\d{8,15}$/.test(e164) ? null : 'invalid'
+}
+
+/** National number in readable groups, e.g. "91 123 4567" */
+export function formatNational(dial: string, national: string): string {
+  const digits = digitsOnly(national).replace(/^0+/, '')
+  if (dial === '251') {
+    return [digits.slice(0, 2), digits.slice(2, 5), digits.slice(5)].filter(Boolean).join(' ')
+  }
+  return digits.replace(/(\d{3})(?=\d)/g, '$1 ')
+}
+
+/** "+251 91 123 4567" */
+export function formatPhone(value: string): string {
+  if (!value) return ''
+  const { dial, national } = splitPhone(value)
+  return `+${dial} ${formatNational(dial, national)}`.trim()
+}
@@ -0,0 +1,43 @@
+/**
+ * Referral and promo codes shared by agents and Telegram channels as `?ref=CODE`.
+ * The code is kept in localStorage from the first visit until a payment completes,
+ * so it survives the /apply flow and a return visit.
+ */
+
+const REFERRAL_KEY = 'referral_code'
+
+const CODE_PATTERN = /^[A-Z0-9_-]{2,32}$/
+
+export function normalizeReferralCode(value: string): string {
+  return value.trim().toUpperCase()
+}
+
+/** Stores the `ref` query parameter if it looks like a code; returns what was stored */
+export function captureReferralCode(search: string): string | null {
+  const ref = new URLSearchParams(search).get('ref')
+  if (!ref) return null
+  const code = normalizeReferralCode(ref)
+  if (!CODE_PATTERN.test(code)) return null
+  try {
+    localStorage.setItem(REFERRAL_KEY, code)
+  } catch {
+    // Storage unavailable; the code just won't be pre-filled later
+  }
+  return code
+}
+
+export function getReferralCode(): string | null {
+  try {
+    return localStorage.getItem(REFERRAL_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function clearReferralCode(): void {
+  try {
+    localStorage.removeItem(REFERRAL_KEY)
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Subscription date helpers shared by the guards, navigation and payment pages
+ */
+
+import type { SubscriptionStatus } from '@/services/api'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function startOfDay(date: Date): Date {
+  const copy = new Date(date)
+  copy.setHours(0, 0, 0, 0)
+  return copy
+}
+
+/**
+ * Parse a backend date as a local calendar day.
+ * Plain `YYYY-MM-DD` strings would otherwise be read as UTC midnight.
+ */
+export function parseEndDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  const date = match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : new Date(value)
+  return Number.isNaN(date.getTime()) ? null : startOfDay(date)
+}
+
+/**
+ * Whole days left until the subscription ends, counting the end date itself.
+ * Returns 0 on the last day, a negative number once expired, and null without an end date.
+ */
+export function getDaysRemaining(endDate: string | null, today: Date = new Date()): number | null {
+  if (!endDate) return null
+  const end = parseEndDate(endDate)
+  if (!end) return null
+  return Math.round((end.getTime() - startOfDay(today).getTime()) / DAY_MS)
+}
+
+/**
+ * A subscription grants access when it is 'active' and its end date (if any) is today or later
+ */
+export function isSubscriptionActive(
+  status: SubscriptionStatus | null | undefined,
+  endDate: string | null | undefined,
+  today: Date = new Date()
+): boolean {
+  if (status !== 'active') return false
+  if (!endDate) return true
+  const days = getDaysRemaining(endDate, today)
+  return days === null || days >= 0
+}
+
+/**
+ * Distinguishes a subscription that ran out from one that was never paid for
+ */
+export function isSubscriptionExpired(
+  status: SubscriptionStatus | null | undefined,
+  endDate: string | null | undefined,
+  today: Date = new Date()
+): boolean {
+  if (status === 'expired') return true
+  if (status !== 'active' || !endDate) return false
+  const days = getDaysRemaining(endDate, today)
+  return days !== null && days < 0
+}
+
+/** Renewal reminders start this many days before the end date */
+export const RENEWAL_WARNING_DAYS = 7
+
+export function formatEndDate(endDate: string, locale?: string): string {
+  const date = parseEndDate(endDate)
+  return date ? date.toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' }) : endDate
+}
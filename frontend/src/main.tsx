@@ -4,14 +4,25 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import App from './App'
 import './index.css'
 import MultiStepForm from './modules/apply/MultiStepForm'
+import EligibilityPage from './modules/eligibility/EligibilityPage'
 import Payment from './modules/payment/Payment'
 import PaymentSuccess from './modules/payment/PaymentSuccess'
+import MockCheckout from './modules/payment/MockCheckout'
+import { MOCK_CHECKOUT_PATH, mockPaymentsEnabled } from './modules/payment/providers'
 import Dashboard from './modules/dashboard/Dashboard'
 import SitesPage from './modules/sites/SitesPage'
 import ContactPage from './modules/contact/ContactPage'
 import AuthProvider from './modules/auth/AuthContext'
+import SubscriptionProvider from './modules/subscription/SubscriptionContext'
+import ForgotPasswordPage from './modules/auth/ForgotPasswordPage'
+import ResetPasswordPage from './modules/auth/ResetPasswordPage'
+import VerifyEmailPage from './modules/verification/VerifyEmailPage'
+import CheckInboxPage from './modules/verification/CheckInboxPage'
 import LoginPage from './modules/auth/LoginPage'
-import { AdminGuard, UserGuard } from './modules/auth/guards'
+import PaymentHistory from './modules/account/PaymentHistory'
+import ProfilePage from './modules/account/ProfilePage'
+import PaymentReceipt from './modules/account/PaymentReceipt'
+import { AdminGuard, AuthGuard, UserGuard } from './modules/auth/guards'
 import Layout from './components/Layout'
 import { LanguageProvider } from './content/LanguageContext'
 
@@ -21,44 +32,76 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <LanguageProvider>
       <AuthProvider>
-        <BrowserRouter>
-          <Layout>
-            <Routes>
-              <Route path="/" element={<App />} />
-              <Route path="/apply" element={<MultiStepForm />} />
-              <Route path="/payment" element={<Payment />} />
-              <Route path="/payment/success" element={<PaymentSuccess />} />
-              <Route path="/payment-success" element={<PaymentSuccess />} />
-              <Route path="/login/payment-success" element={<PaymentSuccess />} />
-              <Route path="/contact" element={<ContactPage />} />
-              <Route path="/login" element={<LoginPage />} />
-              <Route
-                path="/dashboard"
-                element={
-                  <UserGuard>
-                    <Dashboard />
-                  </UserGuard>
-                }
-              />
-              <Route
-                path="/sites"
-                element={
-                  <UserGuard>
-                    <SitesPage />
-                  </UserGuard>
-                }
-              />
-              <Route
-                path="/admin"
-                element={
-                  <AdminGuard>
-                    <Dashboard />
-                  </AdminGuard>
-                }
-              />
-            </Routes>
-          </Layout>
-        </BrowserRouter>
+        <SubscriptionProvider>
+          <BrowserRouter>
+            <Layout>
+              <Routes>
+                <Route path="/" element={<App />} />
+                <Route path="/eligibility" element={<EligibilityPage />} />
+                <Route path="/apply" element={<MultiStepForm />} />
+                <Route path="/payment" element={<Payment />} />
+                {mockPaymentsEnabled && <Route path={MOCK_CHECKOUT_PATH} element={<MockCheckout />} />}
+                <Route path="/payment/success" element={<PaymentSuccess />} />
+                <Route path="/payment-success" element={<PaymentSuccess />} />
+                <Route path="/login/payment-success" element={<PaymentSuccess />} />
+                <Route path="/contact" element={<ContactPage />} />
+                <Route path="/login" element={<LoginPage />} />
+                <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+                <Route path="/reset-password" element={<ResetPasswordPage />} />
+                <Route path="/verify-email" element={<VerifyEmailPage />} />
+                <Route path="/verify-email/sent" element={<CheckInboxPage />} />
+                <Route
+                  path="/dashboard"
+                  element={
+                    <UserGuard>
+                      <Dashboard />
+                    </UserGuard>
+                  }
+                />
+                <Route
+                  path="/sites"
+                  element={
+                    <UserGuard>
+                      <SitesPage />
+                    </UserGuard>
+                  }
+                />
+                <Route
+                  path="/profile"
+                  element={
+                    <AuthGuard>
+                      <ProfilePage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="/account/payments"
+                  element={
+                    <AuthGuard>
+                      <PaymentHistory />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="/account/payments/:txRef/receipt"
+                  element={
+                    <AuthGuard>
+                      <PaymentReceipt />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="/admin"
+                  element={
+                    <AdminGuard>
+                      <Dashboard />
+                    </AdminGuard>
+                  }
+                />
+              </Routes>
+            </Layout>
+          </BrowserRouter>
+        </SubscriptionProvider>
       </AuthProvider>
     </LanguageProvider>
   </React.StrictMode>
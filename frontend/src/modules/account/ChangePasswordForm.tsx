@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { Link } from 'react-router-dom'
+import { changePassword } from '../../services/api'
+import { validatePassword } from '../apply/validation'
+import FieldError from '../apply/FieldError'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { KeyRound, Loader2, Lock } from 'lucide-react'
+import { useLanguage } from '@/content/LanguageContext'
+
+type PasswordField = 'current' | 'next' | 'confirm'
+
+const emptyForm: Record<PasswordField, string> = { current: '', next: '', confirm: '' }
+
+export default function ChangePasswordForm() {
+  const { currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const [form, setForm] = useState(emptyForm)
+  const [errors, setErrors] = useState<Partial<Record<PasswordField, string>>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const set = (field: PasswordField, value: string) => {
+    setForm(f => ({ ...f, [field]: value }))
+    setErrors(e => ({ ...e, [field]: undefined }))
+    setNotice(null)
+  }
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault()
+    const found: Partial<Record<PasswordField, string>> = {}
+    if (!form.current) found.current = am ? 'የአሁኑ የይለፍ ቃል ያስፈልጋል' : 'Enter your current password'
+    const problem = validatePassword(form.next, currentLanguage)
+    if (problem) found.next = problem
+    else if (form.next === form.current)
+      found.next = am ? 'አዲሱ የይለፍ ቃል ከአሁኑ የተለየ መሆን አለበት' : 'Choose a password different from your current one'
+    if (form.confirm !== form.next) found.confirm = am ? 'የይለፍ ቃሎቹ አይመሳሰሉም' : 'Passwords do not match'
+    setErrors(found)
+    if (Object.keys(found).length > 0) return
+
+    setSaving(true)
+    setError(null)
+    const res = await changePassword({ current_password: form.current, new_password: form.next })
+    setSaving(false)
+    if (res.ok) {
+      setForm(emptyForm)
+      setNotice(am ? 'የይለፍ ቃልዎ ተቀይሯል' : 'Your password has been changed')
+      return
+    }
+    const { fieldErrors } = res.error
+    const serverErrors: Partial<Record<PasswordField, string>> = {
+      current: fieldErrors.current_password?.[0] ?? fieldErrors.old_password?.[0],
+      next: fieldErrors.new_password?.[0],
+    }
+    setErrors(serverErrors)
+    if (!serverErrors.current && !serverErrors.next) setError(res.error.message)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          {am ? 'የይለፍ ቃል ቀይር' : 'Change Password'}
+        </CardTitle>
+        <CardDescription>
+          {am ? 'የአሁኑን የይለፍ ቃል ረሱ? ' : 'Forgot your current password? '}
+          <Link to="/forgot-password" className="text-primary hover:underline">
+            {am ? 'በኢሜይል ያድሱት' : 'Reset it by email'}
+          </Link>
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {notice && (
+          <Alert className="mb-4 bg-green-50 border-green-200">
+            <AlertDescription className="text-green-800">{notice}</AlertDescription>
+          </Alert>
+        )}
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <form onSubmit={submit} className="grid gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="currentPassword">{am ? 'የአሁኑ የይለፍ ቃል' : 'Current password'}</Label>
+            <Input
+              id="currentPassword"
+              type="password"
+              autoComplete="current-password"
+              value={form.current}
+              onChange={e => set('current', e.target.value)}
+              aria-invalid={!!errors.current}
+            />
+            <FieldError message={errors.current} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="newPassword">{am ? 'አዲስ የይለፍ ቃል' : 'New password'}</Label>
+              <Input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                value={form.next}
+                onChange={e => set('next', e.target.value)}
+                aria-invalid={!!errors.next}
+              />
+              <FieldError message={errors.next} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmNewPassword">{am ? 'አዲሱን ያረጋግጡ' : 'Confirm new password'}</Label>
+              <Input
+                id="confirmNewPassword"
+                type="password"
+                autoComplete="new-password"
+                value={form.confirm}
+                onChange={e => set('confirm', e.target.value)}
+                aria-invalid={!!errors.confirm}
+              />
+              <FieldError message={errors.confirm} />
+            </div>
+          </div>
+          <Button type="submit" variant="outline" disabled={saving}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+            {am ? 'የይለፍ ቃል ቀይር' : 'Update Password'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
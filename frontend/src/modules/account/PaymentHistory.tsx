@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { fetchPaymentHistory, confirmPaymentAndLogin } from '../../services/api'
+import type { PaymentRecord, PaymentStatus } from '../../services/api'
+import { useAuth } from '../auth/AuthContext'
+import { useSubscription } from '../subscription/SubscriptionContext'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Receipt, RefreshCw, Loader2, CreditCard, FileText } from 'lucide-react'
+import { formatCurrency, formatDateTime } from '@/lib/format'
+import { cn } from '@/lib/utils'
+
+const statusStyles: Record<PaymentStatus, string> = {
+  success: 'bg-green-100 text-green-800 border-green-200',
+  pending: 'bg-amber-100 text-amber-800 border-amber-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+}
+
+const statusLabels: Record<PaymentStatus, string> = {
+  success: 'Paid',
+  pending: 'Pending',
+  failed: 'Failed',
+}
+
+export function PaymentStatusBadge({ status }: { status: PaymentStatus }) {
+  return (
+    <Badge variant="outline" className={cn('capitalize', statusStyles[status])}>
+      {statusLabels[status] || status}
+    </Badge>
+  )
+}
+
+export default function PaymentHistory() {
+  const { applyTokens } = useAuth()
+  const subscription = useSubscription()
+  const [payments, setPayments] = useState<PaymentRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [verifying, setVerifying] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadPayments = useCallback(async () => {
+    const res = await fetchPaymentHistory()
+    if (res.ok) {
+      // Newest first
+      setPayments([...res.data].sort((a, b) => b.created_at.localeCompare(a.created_at)))
+      setError(null)
+    } else {
+      setError(res.error.message)
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadPayments()
+  }, [loadPayments])
+
+  const reverify = async (payment: PaymentRecord) => {
+    setVerifying(payment.tx_ref)
+    setNotice(null)
+    setError(null)
+    try {
+      // Same confirmation the success page runs after returning from the gateway
+      const res = await confirmPaymentAndLogin({ payment_ref: payment.tx_ref, tx_ref: payment.tx_ref })
+      if (res.ok) {
+        applyTokens(res.data)
+        setNotice(`Payment ${payment.tx_ref} has been verified.`)
+        await subscription.refresh()
+      } else {
+        setError(res.error.message || 'The payment could not be verified yet. Please try again in a few minutes.')
+      }
+      await loadPayments()
+    } finally {
+      setVerifying(null)
+    }
+  }
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 via-blue-100 to-indigo-50 min-h-[calc(100vh-4rem)]">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2 flex items-center gap-3">
+            <Receipt className="h-8 w-8 text-primary" />
+            Payment History
+          </h1>
+          <p className="text-lg text-muted-foreground">
+            Review your past payments, check pending transactions and download receipts.
+          </p>
+        </div>
+
+        {notice && (
+          <Alert className="mb-6 bg-green-50 border-green-200">
+            <AlertDescription className="text-green-800">{notice}</AlertDescription>
+          </Alert>
+        )}
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CreditCard className="h-5 w-5" />
+              Your Payments
+            </CardTitle>
+            <CardDescription>
+              Pending payments can be re-verified if you completed them at the gateway.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+                <p className="mt-4 text-muted-foreground">Loading payments...</p>
+              </div>
+            ) : payments.length === 0 ? (
+              <div className="text-center py-8">
+                <Receipt className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No payments yet</h3>
+                <p className="text-muted-foreground">Payments you make will appear here.</p>
+              </div>
+            ) : (
+              <div className="divide-y">
+                {payments.map(payment => (
+                  <div key={payment.id} className="py-4 flex flex-col sm:flex-row sm:items-center gap-3 justify-between">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-3">
+                        <span className="text-lg font-semibold">{formatCurrency(payment.amount, payment.currency)}</span>
+                        <PaymentStatusBadge status={payment.status} />
+                      </div>
+                      <p className="text-sm text-muted-foreground">{formatDateTime(payment.created_at)}</p>
+                      <p className="text-xs text-muted-foreground font-mono truncate">Ref: {payment.tx_ref}</p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      {payment.status === 'pending' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => reverify(payment)}
+                          disabled={verifying !== null}
+                        >
+                          {verifying === payment.tx_ref ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <RefreshCw className="mr-2 h-4 w-4" />
+                          )}
+                          Re-verify
+                        </Button>
+                      )}
+                      {payment.status === 'success' && (
+                        <Button asChild variant="outline" size="sm">
+                          <Link to={`/account/payments/${encodeURIComponent(payment.tx_ref)}/receipt`}>
+                            <FileText className="mr-2 h-4 w-4" />
+                            Receipt
+                          </Link>
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
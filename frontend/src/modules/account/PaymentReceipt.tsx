@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { fetchPaymentHistory } from '../../services/api'
+import type { PaymentRecord } from '../../services/api'
+import { useAuth } from '../auth/AuthContext'
+import { PaymentStatusBadge } from './PaymentHistory'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Loader2, Printer, Receipt } from 'lucide-react'
+import { formatCurrency, formatDateTime } from '@/lib/format'
+
+export default function PaymentReceipt() {
+  const { txRef } = useParams<{ txRef: string }>()
+  const { user } = useAuth()
+  const [payment, setPayment] = useState<PaymentRecord | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    // There is no single-payment endpoint; the history list is small enough to search
+    fetchPaymentHistory().then(res => {
+      if (cancelled) return
+      if (res.ok) {
+        const match = res.data.find(p => p.tx_ref === txRef)
+        if (match) setPayment(match)
+        else setError('We could not find a payment with this reference.')
+      } else {
+        setError(res.error.message)
+      }
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [txRef])
+
+  const rows: Array<[string, string]> = payment
+    ? [
+        ['Receipt No.', String(payment.id)],
+        ['Date', formatDateTime(payment.created_at)],
+        ['Transaction Reference', payment.tx_ref],
+        ...(payment.chapa_reference ? [['Gateway Reference', payment.chapa_reference] as [string, string]] : []),
+        ['Billed To', payment.email || user?.email || user?.name || user?.username || '-'],
+        ['Description', 'Job application service subscription'],
+      ]
+    : []
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 via-blue-100 to-indigo-50 min-h-[calc(100vh-4rem)] print:bg-none print:bg-white">
+      <div className="container mx-auto px-4 py-8 max-w-2xl print:p-0 print:max-w-none">
+        <div className="flex justify-between items-center mb-6 print:hidden">
+          <Button asChild variant="ghost">
+            <Link to="/account/payments">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Payments
+            </Link>
+          </Button>
+          {payment && (
+            <Button onClick={() => window.print()}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print Receipt
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+            <p className="mt-4 text-muted-foreground">Loading receipt...</p>
+          </div>
+        ) : error || !payment ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Receipt className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">{error}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="print:shadow-none print:border-0">
+            <CardHeader className="text-center">
+              <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+                <Receipt className="h-6 w-6 text-primary" />
+              </div>
+              <CardTitle className="text-2xl">Payment Receipt</CardTitle>
+              <p className="text-sm text-muted-foreground">Job Application Service</p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="text-center">
+                <p className="text-sm text-muted-foreground">Amount Paid</p>
+                <p className="text-4xl font-bold">{formatCurrency(payment.amount, payment.currency)}</p>
+                <div className="mt-2">
+                  <PaymentStatusBadge status={payment.status} />
+                </div>
+              </div>
+              <div className="border-t" />
+              <dl className="space-y-3">
+                {rows.map(([label, value]) => (
+                  <div key={label} className="flex justify-between gap-4 text-sm">
+                    <dt className="text-muted-foreground">{label}</dt>
+                    <dd className="font-medium text-right break-all">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+              <div className="border-t" />
+              <p className="text-xs text-center text-muted-foreground">
+                Thank you for your payment. Keep this receipt for your records.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
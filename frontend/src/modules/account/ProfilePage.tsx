@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react'
+import { fetchProfile, updateProfile } from '../../services/api'
+import type { ApplicantProfile } from '../../services/api'
+import { useSubscription } from '../subscription/SubscriptionContext'
+import type { ApplicationData } from '../apply/MultiStepForm'
+import { mapServerErrors, MAX_AGE, MIN_AGE, stepFields, validateField } from '../apply/validation'
+import type { FieldErrors, FieldName } from '../apply/validation'
+import { buildProfileUpdate, profileToFormData } from '../apply/payload'
+import { useDestinations } from '../apply/useDestinations'
+import WorkExperienceStep from '../apply/WorkExperienceStep'
+import PreferencesStep from '../apply/PreferencesStep'
+import FieldError from '../apply/FieldError'
+import ChangePasswordForm from './ChangePasswordForm'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Briefcase, Loader2, MapPin, Save, User, UserCircle } from 'lucide-react'
+import PhoneInput from '@/components/PhoneInput'
+import { useLanguage } from '@/content/LanguageContext'
+
+// The personal step also has username, email and password, which can't be edited here
+const PERSONAL_FIELDS: FieldName[] = ['first_name', 'last_name', 'phone_number', 'age']
+
+const toFormData = (profile: ApplicantProfile): ApplicationData => ({ ...profileToFormData(profile), accepted_terms: false })
+
+export default function ProfilePage() {
+  const { content, currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const form = content.onboardingForm
+  const subscription = useSubscription()
+  const { destinations, jobsFor, offline } = useDestinations()
+  const [data, setData] = useState<ApplicationData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [errors, setErrors] = useState<FieldErrors>({})
+  // Start month as last saved; a month that has since passed must not block other edits
+  const [savedStartDate, setSavedStartDate] = useState('')
+
+  const load = (profile: ApplicantProfile) => {
+    const formData = toFormData(profile)
+    setData(formData)
+    setSavedStartDate(formData.desiredStartDate)
+  }
+
+  // The sign-up rules, except that an unchanged start date isn't re-checked
+  const validate = (field: FieldName, current: ApplicationData) =>
+    field === 'desiredStartDate' && current.desiredStartDate === savedStartDate
+      ? null
+      : validateField(field, current, currentLanguage)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchProfile().then(res => {
+      if (cancelled) return
+      if (res.ok) load(res.data)
+      else setError(res.error.message)
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const update = (patch: Partial<ApplicationData>) => {
+    setData(d => (d ? { ...d, ...patch } : d))
+    setNotice(null)
+    setErrors(e => {
+      const next = { ...e }
+      for (const field of Object.keys(patch) as FieldName[]) delete next[field]
+      return next
+    })
+  }
+
+  const touch = (field: FieldName) => {
+    if (!data) return
+    const message = validate(field, data)
+    setErrors(e => {
+      const next = { ...e }
+      if (message) next[field] = message
+      else delete next[field]
+      return next
+    })
+  }
+
+  const save = async () => {
+    if (!data) return
+    const found: FieldErrors = {}
+    for (const field of [...PERSONAL_FIELDS, ...stepFields('experience'), ...stepFields('preferences')]) {
+      const message = validate(field, data)
+      if (message) found[field] = message
+    }
+    setErrors(found)
+    if (Object.keys(found).length > 0) {
+      setError(am ? 'እባክዎ ምልክት የተደረገባቸውን መስኮች ያስተካክሉ' : 'Please fix the highlighted fields')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    const res = await updateProfile(buildProfileUpdate(data))
+    if (res.ok) {
+      load(res.data)
+      setNotice(am ? 'መገለጫዎ ተቀምጧል' : 'Your profile has been saved')
+      // The dashboard's target country and curated sites follow the first preferred country
+      await subscription.refresh()
+    } else {
+      const { errors: serverErrors, unmatched } = mapServerErrors(res.error.fieldErrors)
+      setErrors(serverErrors)
+      setError(unmatched[0] || res.error.message)
+    }
+    setSaving(false)
+  }
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 via-blue-100 to-indigo-50 min-h-[calc(100vh-4rem)]">
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2 flex items-center gap-3">
+            <UserCircle className="h-8 w-8 text-primary" />
+            {am ? 'የእኔ መገለጫ' : 'My Profile'}
+          </h1>
+          <p className="text-lg text-muted-foreground">
+            {am
+              ? 'የግል መረጃዎን፣ የስራ ልምድዎን እና የስራ ምርጫዎችዎን ያዘምኑ።'
+              : 'Keep your details, work experience and job preferences up to date.'}
+          </p>
+        </div>
+
+        {notice && (
+          <Alert className="mb-6 bg-green-50 border-green-200">
+            <AlertDescription className="text-green-800">{notice}</AlertDescription>
+          </Alert>
+        )}
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          data && (
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <User className="h-5 w-5" />
+                    {form.personalInfo}
+                  </CardTitle>
+                  <CardDescription>
+                    {am ? 'የተጠቃሚ ስም እና ኢሜይል መቀየር አይቻልም።' : 'Your username and email cannot be changed.'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="firstName">{form.firstNameLabel}</Label>
+                      <Input
+                        id="firstName"
+                        value={data.first_name}
+                        onChange={e => update({ first_name: e.target.value })}
+                        onBlur={() => touch('first_name')}
+                        aria-invalid={!!errors.first_name}
+                      />
+                      <FieldError message={errors.first_name} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="lastName">{form.lastNameLabel}</Label>
+                      <Input
+                        id="lastName"
+                        value={data.last_name}
+                        onChange={e => update({ last_name: e.target.value })}
+                        onBlur={() => touch('last_name')}
+                        aria-invalid={!!errors.last_name}
+                      />
+                      <FieldError message={errors.last_name} />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="username">{form.usernameLabel}</Label>
+                      <Input id="username" value={data.username} disabled />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="email">{form.emailLabel}</Label>
+                      <Input id="email" value={data.email} disabled />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="phone">{form.phoneLabel}</Label>
+                    <PhoneInput
+                      id="phone"
+                      value={data.phone_number}
+                      onChange={phone_number => update({ phone_number })}
+                      onBlur={() => touch('phone_number')}
+                      invalid={!!errors.phone_number}
+                    />
+                    <FieldError message={errors.phone_number} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="age">{am ? 'እድሜ' : 'Age'}</Label>
+                    <Input
+                      id="age"
+                      type="number"
+                      min={MIN_AGE}
+                      max={MAX_AGE}
+                      className="max-w-32"
+                      value={data.age}
+                      onChange={e => update({ age: e.target.value })}
+                      onBlur={() => touch('age')}
+                      aria-invalid={!!errors.age}
+                    />
+                    <FieldError message={errors.age} />
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Briefcase className="h-5 w-5" />
+                    {form.workExperienceTitle}
+                  </CardTitle>
+                  <CardDescription>{form.workExperienceSubtitle}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <WorkExperienceStep data={data} update={update} errors={errors} touch={touch} />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <MapPin className="h-5 w-5" />
+                    {form.jobPreferencesTitle}
+                  </CardTitle>
+                  <CardDescription>
+                    {am
+                      ? 'የመጀመሪያ ምርጫዎ አገር በዳሽቦርድዎ ላይ የሚታዩትን የስራ ጣቢያዎች ይወስናል።'
+                      : 'Your first-choice country decides the job sites on your dashboard.'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PreferencesStep
+                    data={data}
+                    update={update}
+                    errors={errors}
+                    touch={touch}
+                    destinations={destinations}
+                    jobsFor={jobsFor}
+                    offline={offline}
+                  />
+                </CardContent>
+              </Card>
+
+              <Button type="button" size="lg" className="w-full" onClick={save} disabled={saving}>
+                {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                {am ? 'ለውጦችን አስቀምጥ' : 'Save Changes'}
+              </Button>
+            </div>
+          )
+        )}
+
+        {/* Independent of the profile request, so it still works if that fails */}
+        {!loading && (
+          <div className="mt-6">
+            <ChangePasswordForm />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
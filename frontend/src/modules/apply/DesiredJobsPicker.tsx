@@ -0,0 +1,123 @@
+import type { JobCategory } from '../../services/api'
+import type { DesiredJob } from './MultiStepForm'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useLanguage } from '@/content/LanguageContext'
+import { cn } from '@/lib/utils'
+import { jobLabel, MAX_JOBS_PER_COUNTRY } from './destinations'
+import RankedList from './RankedList'
+
+interface DesiredJobsPickerProps {
+  country: string
+  /** Localized country name for headings */
+  countryName: string
+  jobs: JobCategory[]
+  /** This country's choices, first choice first */
+  value: DesiredJob[]
+  onChange: (jobs: DesiredJob[]) => void
+  onBlur?: () => void
+}
+
+export default function DesiredJobsPicker({ country, countryName, jobs, value, onChange, onBlur }: DesiredJobsPickerProps) {
+  const { currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const full = value.length >= MAX_JOBS_PER_COUNTRY
+  const other = value.find(job => job.is_other)
+  const otherInputId = `other-job-${country}`
+
+  const displayName = (job: DesiredJob) => {
+    if (job.is_other) return job.title.trim() || (am ? 'ሌላ' : 'Other')
+    const category = jobs.find(c => c.title === job.title)
+    return category ? jobLabel(category, currentLanguage) : job.title
+  }
+
+  const toggle = (title: string) => {
+    if (value.some(job => !job.is_other && job.title === title)) onChange(value.filter(job => job.is_other || job.title !== title))
+    else if (!full) onChange([...value, { country, title, is_other: false }])
+  }
+
+  const toggleOther = () => {
+    if (other) onChange(value.filter(job => !job.is_other))
+    else if (!full) onChange([...value, { country, title: '', is_other: true }])
+  }
+
+  const optionClass = (selected: boolean) =>
+    cn(
+      'flex items-center gap-2 rounded-md border px-3 py-2 text-left text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-50',
+      selected ? 'border-primary bg-primary/5' : 'hover:bg-accent'
+    )
+
+  const rankBadge = (rank: number) =>
+    rank !== -1 && (
+      <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-primary text-xs text-primary-foreground">
+        {rank + 1}
+      </span>
+    )
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-base font-semibold">
+        {am ? `በ${countryName} የሚፈልጉት ስራ` : `Desired Jobs in ${countryName}`}
+      </Label>
+      <div className="grid gap-2">
+        {jobs.map(job => {
+          const rank = value.findIndex(choice => !choice.is_other && choice.title === job.title)
+          return (
+            <button
+              key={job.id}
+              type="button"
+              onClick={() => toggle(job.title)}
+              disabled={rank === -1 && full}
+              aria-pressed={rank !== -1}
+              className={optionClass(rank !== -1)}
+            >
+              <span className="flex-1">{jobLabel(job, currentLanguage)}</span>
+              {rankBadge(rank)}
+            </button>
+          )
+        })}
+        <button
+          type="button"
+          onClick={toggleOther}
+          disabled={!other && full}
+          aria-pressed={!!other}
+          className={optionClass(!!other)}
+        >
+          <span className="flex-1">{am ? 'ሌላ' : 'Other'}</span>
+          {rankBadge(other ? value.indexOf(other) : -1)}
+        </button>
+      </div>
+
+      {other && (
+        <div className="space-y-1">
+          <Label htmlFor={otherInputId}>{am ? 'የሚፈልጉትን ስራ ይግለጹ' : 'Which job are you looking for?'}</Label>
+          <Input
+            id={otherInputId}
+            autoFocus
+            maxLength={100}
+            placeholder={am ? 'ለምሳሌ የአውቶቡስ ሹፌር' : 'e.g. Bus driver'}
+            value={other.title}
+            onChange={e => onChange(value.map(job => (job.is_other ? { ...job, title: e.target.value } : job)))}
+            onBlur={onBlur}
+          />
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {am
+          ? `እስከ ${MAX_JOBS_PER_COUNTRY} ስራዎችን በምርጫ ቅደም ተከተል ይምረጡ። በ${countryName} ውስጥ ለኢትዮጵያውያን የተለመዱ የስራ እድሎች`
+          : `Choose up to ${MAX_JOBS_PER_COUNTRY} jobs in order of preference. Common job opportunities in ${countryName} for international workers.`}
+      </p>
+
+      {value.length > 1 && (
+        <RankedList
+          items={value}
+          onChange={onChange}
+          getKey={job => (job.is_other ? 'other' : job.title)}
+          getName={displayName}
+          renderLabel={displayName}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import type { DocumentUploads } from '../documents/useDocumentUploads'
+import { DOCUMENT_RULES } from '../documents/documentRules'
+import DocumentUploader from '../documents/DocumentUploader'
+import { useLanguage } from '@/content/LanguageContext'
+
+export default function DocumentsStep({ uploads }: { uploads: DocumentUploads }) {
+  const { currentLanguage } = useLanguage()
+
+  return (
+    <div className="grid gap-6">
+      <p className="text-sm text-muted-foreground">
+        {currentLanguage === 'am'
+          ? 'ይህ ደረጃ አማራጭ ነው። አሁን መዝለል እና በኋላ ከዳሽቦርድዎ መጫን ይችላሉ።'
+          : 'This step is optional. You can skip it and upload your documents later from your dashboard.'}
+      </p>
+      {DOCUMENT_RULES.map(rule => (
+        <DocumentUploader
+          key={rule.type}
+          rule={rule}
+          items={uploads.items.filter(item => item.type === rule.type)}
+          onAdd={files => uploads.add(rule.type, files)}
+          onRetry={uploads.retry}
+          onRemove={uploads.remove}
+        />
+      ))}
+    </div>
+  )
+}
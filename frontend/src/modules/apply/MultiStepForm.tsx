@@ -1,16 +1,34 @@
-import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
-import { registerUser } from '../../services/api'
+import { useEffect, useRef, useState } from 'react'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import { fetchApplicationDraft, submitApplicationDraft } from '../../services/api'
+import type { LanguageSkill } from '../../services/api'
 import { useAuth } from '../auth/AuthContext'
+import { firstStepWithError, mapServerErrors, MAX_AGE, MIN_AGE, validateField, validateStep } from './validation'
+import type { FieldErrors, FieldName, StepId } from './validation'
+import { useAvailability } from './useAvailability'
+import type { AvailabilityStatus } from './useAvailability'
+import { clearDraft, hasDraftContent, loadDraft, saveDraft, upgradeDraftData, withoutPassword } from './draftStorage'
+import type { StoredDraft } from './draftStorage'
+import { buildRegistrationPayload } from './payload'
+import WorkExperienceStep from './WorkExperienceStep'
+import { useDestinations } from './useDestinations'
+import PreferencesStep from './PreferencesStep'
+import DocumentsStep from './DocumentsStep'
+import ReviewStep from './ReviewStep'
+import FieldError from './FieldError'
+import type { EligibilityPrefill } from '../eligibility/eligibility'
+import { useDocumentUploads } from '../documents/useDocumentUploads'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Label } from '@/components/ui/label'
-import { ChevronLeft, ChevronRight, CreditCard, User, MapPin, Loader2, Eye, EyeOff } from 'lucide-react'
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { ChevronLeft, ChevronRight, CreditCard, User, MapPin, Briefcase, FileText, ClipboardCheck, Loader2, Eye, EyeOff, History, Cloud, CheckCircle2, XCircle } from 'lucide-react'
 import { useLanguage } from '@/content/LanguageContext'
+import PhoneInput from '@/components/PhoneInput'
+import { markVerificationSent } from '@/lib/emailVerification'
+import { captureReferralCode, getReferralCode, normalizeReferralCode } from '@/lib/referral'
 
 export type ApplicationData = {
   first_name: string
@@ -20,21 +38,42 @@ export type ApplicationData = {
   phone_number: string
   password?: string
   age: string
-  country: string
-  desiredJob: string
+  /** Destination countries, first choice first */
+  preferred_countries: string[]
+  /** Up to three per country; order within a country is the priority */
+  desired_jobs: DesiredJob[]
   desiredStartDate: string
+  referral_code?: string
+  years_of_experience: string
+  work_experiences: WorkExperienceEntry[]
+  skills: string[]
+  languages: LanguageSkill[]
+  /** Ticked on the review step; never carried over from a saved draft */
+  accepted_terms: boolean
+}
+
+export type WorkExperienceEntry = {
+  /** Client-side key only, not sent to the backend */
+  id: string
+  job_title: string
+  company: string
+  country: string
+  /** YYYY-MM, as produced by <input type="month"> */
+  start_date: string
+  end_date: string
+  is_current: boolean
 }
 
-// Job options by country
-const jobsByCountry: Record<string, string[]> = {
-  'Poland': ['Warehouse Worker', 'Factory Line Operator', 'Agricultural Laborer (Farm Worker)', 'Construction Helper', 'Cleaner', 'Kitchen Assistant'],
-  'Germany': ['Logistics/Warehouse Assistant', 'Construction Laborer', 'Caregiver/Support Worker', 'Cleaning Staff', 'Food Processing Line Worker'],
-  'Netherlands': ['Greenhouse Worker (Horticulture)', 'Warehouse/Logistics Assistant', 'Factory Line Operator'],
-  'Spain': ['Seasonal Agricultural Worker (Fruit Picker)', 'Hotel Housekeeping', 'Industrial Cleaner', 'Delivery Worker'],
-  'Italy': ['Seasonal Farm Worker (Agriculture)', 'Hospitality (Kitchen Assistant, Housekeeping)'],
-  'Luxembourg': ['Cleaning Staff', 'Construction Laborer', 'Warehouse/Factory Worker', 'Kitchen Helper'],
+export type DesiredJob = {
+  country: string
+  /** Job category title, or the applicant's own words when `is_other` */
+  title: string
+  is_other: boolean
 }
 
+// Steps in the order they are shown; the indicator and navigation follow this list
+const STEPS: StepId[] = ['personal', 'experience', 'preferences', 'documents', 'review']
+
 const initialData: ApplicationData = {
   first_name: '',
   last_name: '',
@@ -43,9 +82,14 @@ const initialData: ApplicationData = {
   phone_number: '',
   password: '',
   age: '',
-  country: '',
-  desiredJob: '',
+  preferred_countries: [],
+  desired_jobs: [],
   desiredStartDate: '',
+  years_of_experience: '',
+  work_experiences: [],
+  skills: [],
+  languages: [],
+  accepted_terms: false,
 }
 
 function StepIndicator({ step, total }: { step: number; total: number }) {
@@ -62,104 +106,260 @@ function StepIndicator({ step, total }: { step: number; total: number }) {
   )
 }
 
+function AvailabilityIcon({ status }: { status: AvailabilityStatus }) {
+  const icon =
+    status === 'checking' ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+    : status === 'available' ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+    : status === 'taken' ? <XCircle className="h-4 w-4 text-destructive" />
+    : null
+  return icon && <span className="absolute right-3 top-1/2 -translate-y-1/2">{icon}</span>
+}
+
 export default function MultiStepForm() {
   const { content, currentLanguage } = useLanguage()
-  const { setToken, setUser } = useAuth()
-  const [data, setData] = useState<ApplicationData>(initialData)
+  const { register, token } = useAuth()
+  const { search, state: locationState } = useLocation()
+  const [data, setData] = useState<ApplicationData>(() => ({
+    ...initialData,
+    // Countries, jobs and age carried over from the eligibility check
+    ...(locationState as { eligibility?: EligibilityPrefill } | null)?.eligibility,
+    referral_code: getReferralCode() ?? '',
+  }))
   const [step, setStep] = useState(1)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [errors, setErrors] = useState<FieldErrors>({})
   const [showPassword, setShowPassword] = useState(false)
-  const total = 2
+  // A saved draft waiting for the applicant to resume or discard it; autosave pauses until then
+  const [resumeOffer, setResumeOffer] = useState<StoredDraft | null>(loadDraft)
+  const [syncState, setSyncState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
+  // Set while registering and kept once it succeeds: the sign-in that comes with it
+  // changes `token`, and the draft effects must not bring the cleared draft back
+  const registering = useRef(false)
+  const total = STEPS.length
+  const stepId = STEPS[step - 1]
   const navigate = useNavigate()
+  const { destinations, jobsFor, offline: destinationsOffline } = useDestinations()
+  // Files need an account to attach to, so new applicants' uploads wait until registration
+  const documents = useDocumentUploads({ autoUpload: !!token })
+  // Set once the account exists but some documents still failed to upload
+  const [paymentState, setPaymentState] = useState<Record<string, unknown> | null>(null)
+  // Set by the review step's edit links so Next goes straight back to the review
+  const [returnToReview, setReturnToReview] = useState(false)
+
+  const update = (patch: Partial<ApplicationData>) => {
+    setData(d => ({ ...d, ...patch }))
+    // Editing a field clears its error; it is checked again on blur
+    setErrors(e => {
+      const next = { ...e }
+      for (const field of Object.keys(patch) as FieldName[]) delete next[field]
+      return next
+    })
+  }
+
+  // Only ask the backend about values that pass local validation; signed-in users already own theirs
+  const usernameCheck = useAvailability('username', data.username, !token && !validateField('username', data, currentLanguage))
+  const emailCheck = useAvailability('email', data.email.trim(), !token && !validateField('email', data, currentLanguage))
+
+  const touch = (field: FieldName) => {
+    const message = validateField(field, data, currentLanguage)
+    setErrors(e => {
+      const next = { ...e }
+      if (message) next[field] = message
+      else delete next[field]
+      return next
+    })
+  }
+
+  /** Validates the given steps, shows their errors and jumps to the first failing one */
+  const checkSteps = (steps: StepId[]) => {
+    const found = Object.assign({}, ...steps.map(s => validateStep(s, data, currentLanguage))) as FieldErrors
+    if (steps.includes('personal')) {
+      const am = currentLanguage === 'am'
+      if (!found.username && usernameCheck.status === 'taken')
+        found.username = am ? 'ይህ የተጠቃሚ ስም ተይዟል' : 'This username is already taken'
+      if (!found.email && emailCheck.status === 'taken')
+        found.email = am ? 'በዚህ ኢሜይል የተመዘገበ መለያ አለ' : 'An account with this email already exists'
+    }
+    setErrors(e => ({ ...e, ...found }))
+    const failing = firstStepWithError(found, STEPS)
+    if (failing !== null) setStep(STEPS.indexOf(failing) + 1)
+    return failing === null
+  }
+
+  // Agents also share direct /apply?ref=CODE links
+  useEffect(() => {
+    const code = captureReferralCode(search)
+    if (code) setData(d => ({ ...d, referral_code: code }))
+  }, [search])
+
+  // Signed-in applicants on a new device get the draft saved to their account
+  useEffect(() => {
+    if (!token || registering.current || loadDraft()) return
+    let cancelled = false
+    fetchApplicationDraft().then(res => {
+      if (cancelled || !res.ok || !res.data.application_data) return
+      const saved = withoutPassword({ ...initialData, ...upgradeDraftData(res.data.application_data as Partial<ApplicationData>) })
+      if (!hasDraftContent(saved)) return
+      setResumeOffer({ data: saved, step: 1, savedAt: Date.parse(res.data.updated_at ?? '') || Date.now() })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  useEffect(() => {
+    if (registering.current || resumeOffer || !hasDraftContent(withoutPassword(data))) return
+    saveDraft(data, step)
+  }, [data, step, resumeOffer])
+
+  // Debounced so typing doesn't send a request per keystroke
+  useEffect(() => {
+    if (!token || registering.current || resumeOffer || !hasDraftContent(withoutPassword(data))) return
+    const timeout = setTimeout(async () => {
+      if (registering.current) return
+      setSyncState('saving')
+      const res = await submitApplicationDraft(withoutPassword(data))
+      setSyncState(res.ok ? 'saved' : 'error')
+    }, 2000)
+    return () => clearTimeout(timeout)
+  }, [data, token, resumeOffer])
 
-  const update = (patch: Partial<ApplicationData>) => setData(d => ({ ...d, ...patch }))
+  const resumeDraft = () => {
+    if (!resumeOffer) return
+    setData(d => ({
+      ...d,
+      ...resumeOffer.data,
+      referral_code: resumeOffer.data.referral_code || d.referral_code,
+      accepted_terms: false,
+    }))
+    // The password isn't saved, so anyone still registering has to pass step 1 again
+    setStep(token ? Math.min(Math.max(resumeOffer.step, 1), total) : 1)
+    setResumeOffer(null)
+  }
+
+  const discardDraft = () => {
+    clearDraft()
+    setResumeOffer(null)
+  }
 
-  const next = () => setStep(s => Math.min(total, s + 1))
+  const draftStatusText = () => {
+    const am = currentLanguage === 'am'
+    if (token && syncState === 'saving') return am ? 'በማስቀመጥ ላይ...' : 'Saving...'
+    if (token && syncState === 'saved') return am ? 'ረቂቁ በመለያዎ ተቀምጧል' : 'Draft saved to your account'
+    return am ? 'ሂደትዎ በዚህ መሳሪያ ላይ ተቀምጧል' : 'Your progress is saved on this device'
+  }
+
+  const next = () => {
+    if (!checkSteps([stepId])) return
+    if (returnToReview) {
+      setReturnToReview(false)
+      setStep(total)
+    } else {
+      setStep(s => Math.min(total, s + 1))
+    }
+  }
+
+  const editStep = (id: StepId) => {
+    setReturnToReview(true)
+    setStep(STEPS.indexOf(id) + 1)
+  }
   const back = () => setStep(s => Math.max(1, s - 1))
 
+  // The "check your inbox" screen sits between registration and payment
+  const continueToPayment = (state: Record<string, unknown>) =>
+    navigate('/verify-email/sent', { state: { email: data.email, payment: state } })
+
   const onSubmit = async () => {
-    setIsLoading(true)
     setError(null)
+    // Earlier steps too: a resumed draft comes back without its password
+    if (!checkSteps(STEPS)) {
+      setReturnToReview(true)
+      return
+    }
+    setIsLoading(true)
 
+    if (paymentState) {
+      if (await documents.uploadAll()) continueToPayment(paymentState)
+      setIsLoading(false)
+      return
+    }
+
+    let registered = false
     try {
       // In a more robust setup, the backend would handle user creation
       // and profile creation in a single, atomic transaction.
       // We send all the data in one go.
-      const res = await registerUser(data) // Use the correct endpoint for registration
-
-      if (res.ok || res.status === 201) {
-        // Store the token if provided - use 'auth_access_token' to match api.ts
-        const token = res.token || res.access
-        if (token) {
-          localStorage.setItem('auth_access_token', token)
-          // Also store refresh token if provided
-          if (res.refresh) {
-            localStorage.setItem('auth_refresh_token', res.refresh)
-          }
-          
-          // Update auth context
-          setToken(token)
-          if (res.user) {
-            setUser({ 
-              name: res.user.name || `${res.user.first_name || ''} ${res.user.last_name || ''}`.trim() || res.user.username,
-              email: res.user.email 
-            })
-          }
-        }
+      // The auth store signs the applicant in when the backend returns tokens
+      registering.current = true
+      const res = await register(buildRegistrationPayload(data))
+
+      if (res.ok) {
+        registered = true
+        const account = res.data
+        clearDraft()
+        // The backend sends the first verification email on registration
+        markVerificationSent(data.email)
 
-        // SUCCESS: User created. Redirect to payment page.
+        // SUCCESS: User created. Redirect to payment page (by way of the inbox reminder).
         // After payment is successful, user will be automatically logged in and taken to dashboard
-        navigate('/payment', { 
-          state: { 
-            draftId: res.draft_id || 'temp', 
-            email: data.email, 
-            applicationData: data,
-            userId: res.user?.id
-          } 
-        })
+        const state = { 
+          draftId: account.draft_id || 'temp', 
+          email: data.email, 
+          referralCode: data.referral_code || undefined,
+          applicationData: data,
+          userId: account.user?.id
+        }
+        if (documents.pending > 0 && !(await documents.uploadAll())) {
+          setPaymentState(state)
+          setError(
+            currentLanguage === 'am'
+              ? 'አንዳንድ ሰነዶች አልተጫኑም። ከታች እንደገና ይሞክሩ ወይም ይቀጥሉ እና በኋላ ከዳሽቦርድዎ ይጫኑ።'
+              : 'Some documents failed to upload. Retry them below, or continue and upload them later from your dashboard.'
+          )
+          return
+        }
+        continueToPayment(state)
       } else {
-        // Handle submission failure from the backend
-        const errorMessage =
-          res.error || res.username?.[0] || res.email?.[0] || 'Failed to submit application. Please check your details and try again.'
-        setError(errorMessage)
+        registering.current = false
+        // Show backend field errors next to their inputs and go back to the first one
+        const { errors: serverErrors, unmatched } = mapServerErrors(res.error.fieldErrors)
+        setErrors(serverErrors)
+        const failing = firstStepWithError(serverErrors, STEPS)
+        if (failing !== null) {
+          setStep(STEPS.indexOf(failing) + 1)
+          setReturnToReview(true)
+        }
+        const fallback =
+          failing === null ? res.error.message || 'Failed to submit application. Please check your details and try again.' : null
+        setError(unmatched[0] || fallback)
       }
     } catch (e) {
+      if (!registered) registering.current = false
       setError('An unexpected error occurred. Please try again later.')
     } finally {
       setIsLoading(false)
     }
   }
 
-  const validStep = () => {
-    if (step === 1)
-      return !!(
-        data.first_name && // Personal Info
-        data.last_name && //
-        data.username && //
-        data.email && //
-        data.password && //
-        data.password.length >= 8 && //
-        data.phone_number && //
-        data.age //
-      )
-    if (step === 2)
-      return !!(data.country && data.desiredJob && data.desiredStartDate) // Job Preferences
-    return false
-  }
-
-  const getStepIcon = (stepNum: number) => {
-    switch (stepNum) {
-      case 1: return <User className="h-5 w-5" />
-      case 2: return <MapPin className="h-5 w-5" />
+  const getStepIcon = (id: StepId) => {
+    switch (id) {
+      case 'personal': return <User className="h-5 w-5" />
+      case 'experience': return <Briefcase className="h-5 w-5" />
+      case 'preferences': return <MapPin className="h-5 w-5" />
+      case 'documents': return <FileText className="h-5 w-5" />
+      case 'review': return <ClipboardCheck className="h-5 w-5" />
       default: return null
     }
   }
 
-  const getStepTitle = (stepNum: number) => {
-    switch (stepNum) {
-      case 1: return content.onboardingForm.personalInfo
-      case 2: return content.onboardingForm.jobPreferencesTitle
+  const getStepTitle = (id: StepId) => {
+    switch (id) {
+      case 'personal': return content.onboardingForm.personalInfo
+      case 'experience': return content.onboardingForm.workExperienceTitle
+      case 'preferences': return content.onboardingForm.jobPreferencesTitle
+      case 'documents': return currentLanguage === 'am' ? 'ሰነዶች' : 'Documents'
+      case 'review': return content.onboardingForm.reviewTitle
       default: return ''
     }
   }
@@ -169,17 +369,49 @@ export default function MultiStepForm() {
       <div className="max-w-2xl mx-auto px-4">
         <StepIndicator step={step} total={total} />
 
+        {resumeOffer && (
+          <Alert className="mb-6 bg-white">
+            <History className="h-4 w-4" />
+            <AlertDescription>
+              <p className="font-medium text-foreground">
+                {currentLanguage === 'am'
+                  ? 'ያልጨረሱት ማመልከቻ አለ። ካቆሙበት መቀጠል ይፈልጋሉ?'
+                  : `You have an unfinished application from ${new Date(resumeOffer.savedAt).toLocaleString()}. Resume where you left off?`}
+              </p>
+              {!token && (
+                <p className="text-sm">
+                  {currentLanguage === 'am'
+                    ? 'ለደህንነትዎ የይለፍ ቃልዎን እንደገና ማስገባት ያስፈልግዎታል።'
+                    : 'For your security, you will need to re-enter your password.'}
+                </p>
+              )}
+              <div className="flex gap-2 mt-3">
+                <Button size="sm" onClick={resumeDraft}>
+                  {currentLanguage === 'am' ? 'ቀጥል' : 'Resume'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={discardDraft}>
+                  {currentLanguage === 'am' ? 'እንደገና ጀምር' : 'Start Over'}
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Card>
           <CardHeader>
             <div className="flex items-center gap-3">
-              {getStepIcon(step)}
+              {getStepIcon(stepId)}
               <div>
                 <CardTitle className="text-2xl">
-                  {step === 1 ? `${content.onboardingForm.formTitle} ${step}` : getStepTitle(step)}
+                  {stepId === 'personal' ? `${content.onboardingForm.formTitle} ${step}` : getStepTitle(stepId)}
                 </CardTitle>
                 <CardDescription>
-                  {step === 1 && content.onboardingForm.step1Instructions}
-                  {step === 2 && content.onboardingForm.jobPreferencesSubtitle}
+                  {stepId === 'personal' && content.onboardingForm.step1Instructions}
+                  {stepId === 'experience' && content.onboardingForm.workExperienceSubtitle}
+                  {stepId === 'preferences' && content.onboardingForm.jobPreferencesSubtitle}
+                  {stepId === 'documents' &&
+                    (currentLanguage === 'am' ? 'ፓስፖርትዎን፣ CV እና የምስክር ወረቀቶችዎን ይጫኑ' : 'Upload your passport, CV and certificates')}
+                  {stepId === 'review' && content.onboardingForm.reviewSubtitle}
                 </CardDescription>
               </div>
             </div>
@@ -191,7 +423,7 @@ export default function MultiStepForm() {
               </Alert>
             )}
 
-            {step === 1 && (
+            {stepId === 'personal' && (
               <div className="grid gap-4">
                 <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
@@ -201,7 +433,10 @@ export default function MultiStepForm() {
                     placeholder={currentLanguage === 'am' ? 'ስምዎን ያስገቡ' : `Enter your ${content.onboardingForm.firstNameLabel.toLowerCase()}`}
                     value={data.first_name}
                     onChange={e => update({ first_name: e.target.value })}
+                    onBlur={() => touch('first_name')}
+                    aria-invalid={!!errors.first_name}
                   />
+                  <FieldError message={errors.first_name} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="lastName">{content.onboardingForm.lastNameLabel}</Label>
@@ -210,27 +445,81 @@ export default function MultiStepForm() {
                     placeholder={currentLanguage === 'am' ? 'የአባት ስምዎን ያስገቡ' : `Enter your ${content.onboardingForm.lastNameLabel.toLowerCase()}`}
                     value={data.last_name}
                     onChange={e => update({ last_name: e.target.value })}
+                    onBlur={() => touch('last_name')}
+                    aria-invalid={!!errors.last_name}
                   />
+                  <FieldError message={errors.last_name} />
                 </div>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="username">{content.onboardingForm.usernameLabel}</Label>
-                  <Input
-                    id="username"
-                    placeholder={currentLanguage === 'am' ? 'የተጠቃሚ ስምዎን ይምረጡ' : 'Choose a username'}
-                    value={data.username}
-                    onChange={e => update({ username: e.target.value })}
-                  />
+                  <div className="relative">
+                    <Input
+                      id="username"
+                      placeholder={currentLanguage === 'am' ? 'የተጠቃሚ ስምዎን ይምረጡ' : 'Choose a username'}
+                      value={data.username}
+                      onChange={e => update({ username: e.target.value })}
+                      onBlur={() => touch('username')}
+                      aria-invalid={!!errors.username || usernameCheck.status === 'taken'}
+                      className="pr-10"
+                    />
+                    <AvailabilityIcon status={usernameCheck.status} />
+                  </div>
+                  <FieldError message={errors.username} />
+                  {!errors.username && usernameCheck.status === 'available' && (
+                    <p className="text-sm text-green-700">
+                      {currentLanguage === 'am' ? 'የተጠቃሚ ስሙ ይገኛል' : 'Username is available'}
+                    </p>
+                  )}
+                  {!errors.username && usernameCheck.status === 'taken' && (
+                    <div className="space-y-2">
+                      <p className="text-sm text-destructive">
+                        {currentLanguage === 'am' ? 'ይህ የተጠቃሚ ስም ተይዟል' : 'This username is already taken'}
+                      </p>
+                      {usernameCheck.suggestions.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          <span className="text-muted-foreground">{currentLanguage === 'am' ? 'ይሞክሩ:' : 'Try:'}</span>
+                          {usernameCheck.suggestions.map(suggestion => (
+                            <Button
+                              key={suggestion}
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              className="h-7"
+                              onClick={() => update({ username: suggestion })}
+                            >
+                              {suggestion}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="email">{content.onboardingForm.emailLabel}</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    placeholder={currentLanguage === 'am' ? 'ኢሜይል አድራሻዎን ያስገቡ' : `Enter your ${content.onboardingForm.emailLabel.toLowerCase()}`}
-                    value={data.email}
-                    onChange={e => update({ email: e.target.value })}
-                  />
+                  <div className="relative">
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder={currentLanguage === 'am' ? 'ኢሜይል አድራሻዎን ያስገቡ' : `Enter your ${content.onboardingForm.emailLabel.toLowerCase()}`}
+                      value={data.email}
+                      onChange={e => update({ email: e.target.value })}
+                      onBlur={() => touch('email')}
+                      aria-invalid={!!errors.email || emailCheck.status === 'taken'}
+                      className="pr-10"
+                    />
+                    <AvailabilityIcon status={emailCheck.status} />
+                  </div>
+                  <FieldError message={errors.email} />
+                  {!errors.email && emailCheck.status === 'taken' && (
+                    <p className="text-sm text-destructive">
+                      {currentLanguage === 'am' ? 'በዚህ ኢሜይል የተመዘገበ መለያ አለ። ' : 'An account with this email already exists. '}
+                      <Link to="/login" className="underline font-medium">
+                        {currentLanguage === 'am' ? 'ይግቡ' : 'Log in instead'}
+                      </Link>
+                    </p>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="password">{content.onboardingForm.passwordLabel}</Label>
@@ -241,6 +530,8 @@ export default function MultiStepForm() {
                       placeholder={currentLanguage === 'am' ? 'የይለፍ ቃል ይፍጠሩ (ቢያንስ 8 ቁምፊዎች)' : 'Create a password (min 8 characters)'}
                       value={data.password}
                       onChange={e => update({ password: e.target.value })}
+                      onBlur={() => touch('password')}
+                      aria-invalid={!!errors.password}
                       className="pr-12"
                     />
                     <button
@@ -257,109 +548,87 @@ export default function MultiStepForm() {
                       )}
                     </button>
                   </div>
+                  <FieldError message={errors.password} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="phone">{content.onboardingForm.phoneLabel}</Label>
-                  <Input
+                  <PhoneInput
                     id="phone"
-                    placeholder={currentLanguage === 'am' ? 'ስልክ ቁጥርዎን ያስገቡ' : `Enter your ${content.onboardingForm.phoneLabel.toLowerCase()}`}
                     value={data.phone_number}
-                    onChange={e => update({ phone_number: e.target.value })}
+                    onChange={phone_number => update({ phone_number })}
+                    onBlur={() => touch('phone_number')}
+                    invalid={!!errors.phone_number}
                   />
+                  <FieldError message={errors.phone_number} />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="age">{currentLanguage === 'am' ? 'እድሜ' : 'Age'}</Label>
                   <Input
                     id="age"
                     type="number"
-                    min="16"
-                    max="65"
+                    min={MIN_AGE}
+                    max={MAX_AGE}
                     placeholder={currentLanguage === 'am' ? 'እድሜዎን ያስገቡ' : 'Enter your age'}
                     value={data.age}
                     onChange={e => update({ age: e.target.value })}
+                    onBlur={() => touch('age')}
+                    aria-invalid={!!errors.age}
                   />
+                  <FieldError message={errors.age} />
                 </div>
               </div>
             )}
 
-            {step === 2 && (
-              <div className="grid gap-6">
-                {/* Country Selection with Radio Buttons */}
-                <div className="space-y-4">
-                  <Label className="text-base font-semibold">
-                    {content.onboardingForm.preferredCountryLabel}
-                  </Label>
-                  <RadioGroup 
-                    value={data.country} 
-                    onValueChange={(value) => {
-                      update({ country: value, desiredJob: '' }) // Reset job when country changes
-                    }}
-                    name="country"
-                    className="grid grid-cols-2 gap-4"
-                  >
-                    {['Poland', 'Germany', 'Netherlands', 'Spain', 'Italy', 'Luxembourg'].map(country => (
-                      <div key={country} className="flex items-center space-x-2">
-                        <RadioGroupItem value={country} id={country} />
-                        <Label htmlFor={country} className="cursor-pointer">{country}</Label>
-                      </div>
-                    ))}
-                  </RadioGroup>
-
-                </div>
-
-                {/* Job Selection with Radio Buttons */}
-                {data.country && jobsByCountry[data.country] && (
-                  <div className="space-y-4">
-                    <Label className="text-base font-semibold">
-                      {currentLanguage === 'am' ? 'የሚፈልጉት ስራ' : 'Desired Job in ' + data.country}
-                    </Label>
-                    <RadioGroup 
-                      value={data.desiredJob} 
-                      onValueChange={(value) => update({ desiredJob: value })}
-                      name="desiredJob"
-                      className="grid gap-3"
-                    >
-                      {jobsByCountry[data.country].map(job => (
-                        <div key={job} className="flex items-center space-x-2">
-                          <RadioGroupItem value={job} id={job} />
-                          <Label htmlFor={job} className="cursor-pointer text-sm">{job}</Label>
-                        </div>
-                      ))}
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="Other" id="Other" />
-                        <Label htmlFor="Other" className="cursor-pointer text-sm">
-                          {currentLanguage === 'am' ? 'ሌላ' : 'Other'}
-                        </Label>
-                      </div>
-                    </RadioGroup>
-                    <p className="text-xs text-muted-foreground">
-                      {currentLanguage === 'am' 
-                        ? 'በ' + data.country + ' ውስጥ ለኢትዮጵያውያን የተለመዱ የስራ እድሎች' 
-                        : 'Common job opportunities in ' + data.country + ' for international workers'}
-                    </p>
-                  </div>
-                )}
-
+            {stepId === 'experience' && (
+              <WorkExperienceStep data={data} update={update} errors={errors} touch={touch} />
+            )}
 
+            {stepId === 'preferences' && (
+              <div className="grid gap-6">
+                <PreferencesStep
+                  data={data}
+                  update={update}
+                  errors={errors}
+                  touch={touch}
+                  destinations={destinations}
+                  jobsFor={jobsFor}
+                  offline={destinationsOffline}
+                />
 
                 <div className="space-y-2">
-                  <Label htmlFor="startDate">{content.onboardingForm.desiredStartDateLabel}</Label>
+                  <Label htmlFor="referralCode">
+                    {currentLanguage === 'am' ? 'የሪፈራል ኮድ (አማራጭ)' : 'Referral Code (optional)'}
+                  </Label>
                   <Input
-                    id="startDate"
-                    type="month"
-                    value={data.desiredStartDate}
-                    onChange={e => update({ desiredStartDate: e.target.value })}
+                    id="referralCode"
+                    value={data.referral_code ?? ''}
+                    onChange={e => update({ referral_code: normalizeReferralCode(e.target.value) })}
+                    placeholder={currentLanguage === 'am' ? 'ከወኪል ያገኙት ኮድ' : 'Code from an agent or channel'}
                   />
                 </div>
               </div>
             )}
 
+            {stepId === 'documents' && <DocumentsStep uploads={documents} />}
+
+            {stepId === 'review' && (
+              <ReviewStep
+                data={data}
+                documents={documents.items}
+                destinations={destinations}
+                jobsFor={jobsFor}
+                errors={errors}
+                update={update}
+                onEdit={editStep}
+              />
+            )}
+
             <div className="flex gap-3 pt-6">
               <Button
                 type="button"
                 variant="outline"
                 onClick={back}
-                disabled={step === 1 || isLoading}
+                disabled={step === 1 || isLoading || !!paymentState}
                 className="flex-1"
               >
                 <ChevronLeft className="mr-2 h-4 w-4" />
@@ -369,10 +638,10 @@ export default function MultiStepForm() {
                 <Button
                   type="button"
                   onClick={next}
-                  disabled={!validStep() || isLoading}
+                  disabled={isLoading}
                   className="flex-1"
                 >
-                  {content.onboardingForm.nextButtonText}
+                  {returnToReview ? content.onboardingForm.backToReview : content.onboardingForm.nextButtonText}
                   <ChevronRight className="ml-2 h-4 w-4" />
                 </Button>
               )}
@@ -380,7 +649,7 @@ export default function MultiStepForm() {
                 <Button
                   type="button"
                   onClick={onSubmit}
-                  disabled={!validStep() || isLoading}
+                  disabled={isLoading}
                   className="flex-1"
                 >
                   {isLoading ? (
@@ -397,6 +666,25 @@ export default function MultiStepForm() {
                 </Button>
               )}
             </div>
+
+            {paymentState && (
+              <Button
+                type="button"
+                variant="link"
+                className="w-full"
+                onClick={() => continueToPayment(paymentState)}
+                disabled={isLoading}
+              >
+                {currentLanguage === 'am' ? 'ያለ ሰነዶቹ ወደ ክፍያ ቀጥል' : 'Continue to payment without them'}
+              </Button>
+            )}
+
+            {!resumeOffer && hasDraftContent(withoutPassword(data)) && (
+              <p className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                <Cloud className="h-3 w-3" />
+                {draftStatusText()}
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,86 @@
+import type { Destination, JobCategory } from '../../services/api'
+import type { ApplicationData } from './MultiStepForm'
+import type { FieldErrors, FieldName } from './validation'
+import { countryLabel } from './destinations'
+import PreferredCountriesPicker from './PreferredCountriesPicker'
+import DesiredJobsPicker from './DesiredJobsPicker'
+import FieldError from './FieldError'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useLanguage } from '@/content/LanguageContext'
+
+interface PreferencesStepProps {
+  data: ApplicationData
+  update: (patch: Partial<ApplicationData>) => void
+  errors: FieldErrors
+  touch: (field: FieldName) => void
+  destinations: Destination[]
+  jobsFor: (country: string) => JobCategory[]
+  /** The destination lists are the bundled fallback */
+  offline: boolean
+}
+
+/** Ranked countries, jobs per country and start date; shared by /apply and /profile */
+export default function PreferencesStep({ data, update, errors, touch, destinations, jobsFor, offline }: PreferencesStepProps) {
+  const { content, currentLanguage } = useLanguage()
+
+  return (
+    <div className="grid gap-6">
+      {/* Ranked destination countries */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold">
+          {content.onboardingForm.preferredCountryLabel}
+        </Label>
+        <PreferredCountriesPicker
+          destinations={destinations}
+          value={data.preferred_countries}
+          onChange={countries =>
+            update({
+              preferred_countries: countries,
+              desired_jobs: data.desired_jobs.filter(job => countries.includes(job.country)),
+            })
+          }
+        />
+        <FieldError message={errors.preferred_countries} />
+        {offline && (
+          <p className="text-xs text-muted-foreground">
+            {currentLanguage === 'am'
+              ? 'የቅርብ ጊዜውን የአገሮች ዝርዝር መጫን አልተቻለም፤ የተቀመጠ ዝርዝር እየታየ ነው።'
+              : "We couldn't load the latest list of countries and jobs, so a saved list is shown."}
+          </p>
+        )}
+      </div>
+
+      {data.preferred_countries.map(country => {
+        const destination = destinations.find(d => d.country === country)
+        return (
+          <DesiredJobsPicker
+            key={country}
+            country={country}
+            countryName={destination ? countryLabel(destination, currentLanguage) : country}
+            jobs={jobsFor(country)}
+            value={data.desired_jobs.filter(job => job.country === country)}
+            onChange={jobs =>
+              update({ desired_jobs: [...data.desired_jobs.filter(job => job.country !== country), ...jobs] })
+            }
+            onBlur={() => touch('desired_jobs')}
+          />
+        )
+      })}
+      <FieldError message={errors.desired_jobs} />
+
+      <div className="space-y-2">
+        <Label htmlFor="startDate">{content.onboardingForm.desiredStartDateLabel}</Label>
+        <Input
+          id="startDate"
+          type="month"
+          value={data.desiredStartDate}
+          onChange={e => update({ desiredStartDate: e.target.value })}
+          onBlur={() => touch('desiredStartDate')}
+          aria-invalid={!!errors.desiredStartDate}
+        />
+        <FieldError message={errors.desiredStartDate} />
+      </div>
+    </div>
+  )
+}
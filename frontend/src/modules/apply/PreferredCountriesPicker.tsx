@@ -0,0 +1,75 @@
+import type { Destination } from '../../services/api'
+import { useLanguage } from '@/content/LanguageContext'
+import { getCountryFlag } from '@/lib/countryFlags'
+import { cn } from '@/lib/utils'
+import { countryLabel, MAX_PREFERRED_COUNTRIES } from './destinations'
+import RankedList from './RankedList'
+
+interface PreferredCountriesPickerProps {
+  destinations: Destination[]
+  /** Country names, first choice first */
+  value: string[]
+  onChange: (countries: string[]) => void
+}
+
+export default function PreferredCountriesPicker({ destinations, value, onChange }: PreferredCountriesPickerProps) {
+  const { currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const full = value.length >= MAX_PREFERRED_COUNTRIES
+  const labelFor = (country: string) => {
+    const destination = destinations.find(d => d.country === country)
+    return destination ? countryLabel(destination, currentLanguage) : country
+  }
+
+  const toggle = (country: string) => {
+    if (value.includes(country)) onChange(value.filter(c => c !== country))
+    else if (!full) onChange([...value, country])
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        {destinations.map(destination => {
+          const rank = value.indexOf(destination.country)
+          const selected = rank !== -1
+          return (
+            <button
+              key={destination.country}
+              type="button"
+              onClick={() => toggle(destination.country)}
+              disabled={!selected && full}
+              aria-pressed={selected}
+              className={cn(
+                'flex items-center gap-2 rounded-md border p-3 text-left text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-50',
+                selected ? 'border-primary bg-primary/5' : 'hover:bg-accent'
+              )}
+            >
+              <span className="text-lg">{getCountryFlag(destination.country)}</span>
+              <span className="flex-1 font-medium">{countryLabel(destination, currentLanguage)}</span>
+              {selected && (
+                <span className="flex h-5 w-5 items-center justify-center rounded-full bg-primary text-xs text-primary-foreground">
+                  {rank + 1}
+                </span>
+              )}
+            </button>
+          )
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {am
+          ? `እስከ ${MAX_PREFERRED_COUNTRIES} አገሮች በምርጫ ቅደም ተከተል ይምረጡ።`
+          : `Choose up to ${MAX_PREFERRED_COUNTRIES} countries in order of preference.`}
+      </p>
+
+      {value.length > 1 && (
+        <RankedList
+          items={value}
+          onChange={onChange}
+          getKey={country => country}
+          getName={country => country}
+          renderLabel={country => `${getCountryFlag(country)} ${labelFor(country)}`}
+        />
+      )}
+    </div>
+  )
+}
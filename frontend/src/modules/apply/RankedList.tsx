@@ -0,0 +1,70 @@
+import type { ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { ArrowDown, ArrowUp, X } from 'lucide-react'
+import { useLanguage } from '@/content/LanguageContext'
+
+interface RankedListProps<T> {
+  /** First item is the top priority */
+  items: T[]
+  onChange: (items: T[]) => void
+  getKey: (item: T) => string
+  /** Plain name used in the buttons' accessible labels */
+  getName: (item: T) => string
+  renderLabel: (item: T) => ReactNode
+}
+
+const move = <T,>(list: T[], from: number, to: number) => {
+  const next = [...list]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+/** Numbered list with up/down buttons for putting choices in priority order */
+export default function RankedList<T>({ items, onChange, getKey, getName, renderLabel }: RankedListProps<T>) {
+  const { currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+
+  return (
+    <ol className="space-y-2">
+      {items.map((item, index) => (
+        <li key={getKey(item)} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+          <span className="w-5 font-semibold text-muted-foreground">{index + 1}.</span>
+          <span className="flex-1 min-w-0">{renderLabel(item)}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onChange(move(items, index, index - 1))}
+            disabled={index === 0}
+            aria-label={am ? 'ወደ ላይ' : `Move ${getName(item)} up`}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onChange(move(items, index, index + 1))}
+            disabled={index === items.length - 1}
+            aria-label={am ? 'ወደ ታች' : `Move ${getName(item)} down`}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            aria-label={am ? 'አስወግድ' : `Remove ${getName(item)}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,164 @@
+import type { ReactNode } from 'react'
+import type { Destination, JobCategory } from '../../services/api'
+import type { ApplicationData } from './MultiStepForm'
+import type { FieldErrors, StepId } from './validation'
+import type { UploadItem } from '../documents/useDocumentUploads'
+import { DOCUMENT_RULES } from '../documents/documentRules'
+import { countryLabel, jobLabel } from './destinations'
+import { PROFICIENCY_LABELS } from './proficiency'
+import FieldError from './FieldError'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Pencil, Info } from 'lucide-react'
+import { useLanguage } from '@/content/LanguageContext'
+import { formatPhone } from '@/lib/phone'
+import { getCountryFlag } from '@/lib/countryFlags'
+
+interface ReviewStepProps {
+  data: ApplicationData
+  documents: UploadItem[]
+  destinations: Destination[]
+  jobsFor: (country: string) => JobCategory[]
+  errors: FieldErrors
+  update: (patch: Partial<ApplicationData>) => void
+  onEdit: (step: StepId) => void
+}
+
+function ReviewSection({ title, onEdit, children }: { title: string; onEdit: () => void; children: ReactNode }) {
+  const { content } = useLanguage()
+  return (
+    <section className="rounded-md border">
+      <div className="flex items-center justify-between border-b bg-muted/40 px-4 py-2">
+        <h3 className="font-semibold">{title}</h3>
+        <Button type="button" variant="ghost" size="sm" onClick={onEdit}>
+          <Pencil className="mr-1 h-3.5 w-3.5" />
+          {content.onboardingForm.editLabel}
+        </Button>
+      </div>
+      <dl className="grid gap-x-4 gap-y-2 p-4 text-sm sm:grid-cols-[10rem_1fr]">{children}</dl>
+    </section>
+  )
+}
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <>
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="font-medium break-words">{children || '—'}</dd>
+    </>
+  )
+}
+
+export default function ReviewStep({ data, documents, destinations, jobsFor, errors, update, onEdit }: ReviewStepProps) {
+  const { content, currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const form = content.onboardingForm
+
+  const countryName = (country: string) => {
+    const destination = destinations.find(d => d.country === country)
+    return destination ? countryLabel(destination, currentLanguage) : country
+  }
+  const jobName = (country: string, title: string) => {
+    const category = jobsFor(country).find(job => job.title === title)
+    return category ? jobLabel(category, currentLanguage) : title
+  }
+  const month = (value: string) => {
+    if (!value) return ''
+    const [year, monthIndex] = value.split('-').map(Number)
+    return new Date(year, monthIndex - 1).toLocaleDateString(am ? 'am-ET' : 'en-US', { month: 'short', year: 'numeric' })
+  }
+
+  return (
+    <div className="grid gap-6">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription>
+          {am
+            ? 'ኢሜይልዎን እና ስልክ ቁጥርዎን በጥንቃቄ ያረጋግጡ፤ ደረሰኞች እና መልዕክቶች ወደዚያ ይላካሉ።'
+            : 'Double-check your email and phone number: receipts and updates are sent there.'}
+        </AlertDescription>
+      </Alert>
+
+      <ReviewSection title={form.personalInfo} onEdit={() => onEdit('personal')}>
+        <Row label={am ? 'ሙሉ ስም' : 'Full Name'}>{`${data.first_name} ${data.last_name}`.trim()}</Row>
+        <Row label={form.usernameLabel}>{data.username}</Row>
+        <Row label={form.emailLabel}>{data.email}</Row>
+        <Row label={form.phoneLabel}>{formatPhone(data.phone_number)}</Row>
+        <Row label={am ? 'እድሜ' : 'Age'}>{data.age}</Row>
+      </ReviewSection>
+
+      <ReviewSection title={form.workExperienceTitle} onEdit={() => onEdit('experience')}>
+        <Row label={form.yearsExperienceLabel}>{data.years_of_experience}</Row>
+        <Row label={am ? 'የስራ ታሪክ' : 'Work History'}>
+          {data.work_experiences.length > 0 && (
+            <ul className="space-y-1">
+              {data.work_experiences.map(role => (
+                <li key={role.id}>
+                  {role.job_title}
+                  {role.company && ` · ${role.company}`}
+                  {role.country && ` · ${role.country}`}
+                  <span className="block text-xs font-normal text-muted-foreground">
+                    {month(role.start_date)} – {role.is_current ? (am ? 'አሁን' : 'Present') : month(role.end_date)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Row>
+        <Row label={form.skillsLabel}>{data.skills.join(', ')}</Row>
+        <Row label={am ? 'ቋንቋዎች' : 'Languages'}>
+          {data.languages
+            .map(entry => `${entry.language} (${PROFICIENCY_LABELS[entry.proficiency][currentLanguage]})`)
+            .join(', ')}
+        </Row>
+      </ReviewSection>
+
+      <ReviewSection title={form.jobPreferencesTitle} onEdit={() => onEdit('preferences')}>
+        <Row label={form.preferredCountryLabel}>
+          {data.preferred_countries.length > 0 && (
+            <ol className="space-y-1">
+              {data.preferred_countries.map((country, index) => (
+                <li key={country}>
+                  {index + 1}. {getCountryFlag(country)} {countryName(country)}
+                  <span className="block text-xs font-normal text-muted-foreground">
+                    {data.desired_jobs
+                      .filter(job => job.country === country)
+                      .map(job => (job.is_other ? job.title : jobName(country, job.title)))
+                      .join(' › ')}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </Row>
+        <Row label={form.desiredStartDateLabel}>{month(data.desiredStartDate)}</Row>
+        {data.referral_code && <Row label={am ? 'የሪፈራል ኮድ' : 'Referral Code'}>{data.referral_code}</Row>}
+      </ReviewSection>
+
+      <ReviewSection title={am ? 'ሰነዶች' : 'Documents'} onEdit={() => onEdit('documents')}>
+        {DOCUMENT_RULES.map(rule => (
+          <Row key={rule.type} label={rule.label[currentLanguage]}>
+            {documents
+              .filter(item => item.type === rule.type)
+              .map(item => item.file.name)
+              .join(', ') || (am ? 'የለም — በኋላ መጫን ይችላሉ' : 'None yet — you can add it later')}
+          </Row>
+        ))}
+      </ReviewSection>
+
+      <div className="space-y-2">
+        <label className="flex items-start gap-3 rounded-md border p-4 text-sm cursor-pointer has-[:checked]:border-primary has-[:checked]:bg-primary/5">
+          <input
+            type="checkbox"
+            className="mt-0.5 h-4 w-4 accent-primary"
+            checked={data.accepted_terms}
+            onChange={e => update({ accepted_terms: e.target.checked })}
+            aria-invalid={!!errors.accepted_terms}
+          />
+          <span>{form.acceptTermsLabel}</span>
+        </label>
+        <FieldError message={errors.accepted_terms} />
+      </div>
+    </div>
+  )
+}
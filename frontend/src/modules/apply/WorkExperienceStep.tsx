@@ -0,0 +1,280 @@
+import { useState } from 'react'
+import type { LanguageProficiency } from '../../services/api'
+import type { ApplicationData, WorkExperienceEntry } from './MultiStepForm'
+import type { FieldErrors, FieldName } from './validation'
+import { MAX_YEARS_EXPERIENCE } from './validation'
+import { PROFICIENCY_LABELS } from './proficiency'
+import FieldError from './FieldError'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Plus, Trash2, X } from 'lucide-react'
+import { useLanguage } from '@/content/LanguageContext'
+
+interface WorkExperienceStepProps {
+  data: ApplicationData
+  update: (patch: Partial<ApplicationData>) => void
+  errors: FieldErrors
+  touch: (field: FieldName) => void
+}
+
+const MAX_ROLES = 5
+const MAX_SKILLS = 15
+
+const COMMON_LANGUAGES = ['Amharic', 'English', 'Afaan Oromo', 'Tigrinya', 'Somali', 'Arabic', 'German', 'French', 'Italian']
+
+const newRole = (): WorkExperienceEntry => ({
+  id: crypto.randomUUID(),
+  job_title: '',
+  company: '',
+  country: '',
+  start_date: '',
+  end_date: '',
+  is_current: false,
+})
+
+export default function WorkExperienceStep({ data, update, errors, touch }: WorkExperienceStepProps) {
+  const { content, currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const [skillInput, setSkillInput] = useState('')
+
+  const updateRole = (id: string, patch: Partial<WorkExperienceEntry>) =>
+    update({ work_experiences: data.work_experiences.map(role => (role.id === id ? { ...role, ...patch } : role)) })
+
+  const addSkill = () => {
+    const skill = skillInput.trim().replace(/,$/, '')
+    const exists = data.skills.some(s => s.toLowerCase() === skill.toLowerCase())
+    if (skill && !exists && data.skills.length < MAX_SKILLS) update({ skills: [...data.skills, skill] })
+    setSkillInput('')
+  }
+
+  return (
+    <div className="grid gap-6">
+      <div className="space-y-2">
+        <Label htmlFor="yearsExperience">{content.onboardingForm.yearsExperienceLabel}</Label>
+        <Input
+          id="yearsExperience"
+          type="number"
+          min={0}
+          max={MAX_YEARS_EXPERIENCE}
+          placeholder={am ? 'ለምሳሌ 3' : 'e.g. 3'}
+          value={data.years_of_experience}
+          onChange={e => update({ years_of_experience: e.target.value })}
+          onBlur={() => touch('years_of_experience')}
+          aria-invalid={!!errors.years_of_experience}
+        />
+        <FieldError message={errors.years_of_experience} />
+      </div>
+
+      {/* Roles */}
+      <div className="space-y-4">
+        <div>
+          <Label className="text-base font-semibold">{content.onboardingForm.currentRoleLabel}</Label>
+          <p className="text-xs text-muted-foreground">
+            {am ? 'የቅርብ ጊዜ ስራዎን በመጀመሪያ ያስገቡ። ልምድ ከሌለዎት ይህንን ባዶ መተው ይችላሉ።' : 'Start with your most recent job. Leave this empty if you have no work experience yet.'}
+          </p>
+        </div>
+        {data.work_experiences.map((role, index) => (
+          <div key={role.id} className="rounded-md border p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">
+                {am ? `ስራ ${index + 1}` : `Role ${index + 1}`}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => update({ work_experiences: data.work_experiences.filter(r => r.id !== role.id) })}
+                aria-label={am ? 'አስወግድ' : 'Remove role'}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`jobTitle-${role.id}`}>{am ? 'የስራ መጠሪያ' : 'Job Title'}</Label>
+                <Input
+                  id={`jobTitle-${role.id}`}
+                  value={role.job_title}
+                  onChange={e => updateRole(role.id, { job_title: e.target.value })}
+                  onBlur={() => touch('work_experiences')}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`company-${role.id}`}>{am ? 'ድርጅት' : 'Employer'}</Label>
+                <Input
+                  id={`company-${role.id}`}
+                  value={role.company}
+                  onChange={e => updateRole(role.id, { company: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`roleCountry-${role.id}`}>{am ? 'አገር' : 'Country'}</Label>
+              <Input
+                id={`roleCountry-${role.id}`}
+                placeholder={am ? 'ለምሳሌ ኢትዮጵያ' : 'e.g. Ethiopia'}
+                value={role.country}
+                onChange={e => updateRole(role.id, { country: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`start-${role.id}`}>{am ? 'የጀመሩበት' : 'From'}</Label>
+                <Input
+                  id={`start-${role.id}`}
+                  type="month"
+                  value={role.start_date}
+                  onChange={e => updateRole(role.id, { start_date: e.target.value })}
+                  onBlur={() => touch('work_experiences')}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`end-${role.id}`}>{am ? 'ያበቁበት' : 'To'}</Label>
+                <Input
+                  id={`end-${role.id}`}
+                  type="month"
+                  value={role.is_current ? '' : role.end_date}
+                  onChange={e => updateRole(role.id, { end_date: e.target.value })}
+                  onBlur={() => touch('work_experiences')}
+                  disabled={role.is_current}
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={role.is_current}
+                onChange={e => updateRole(role.id, { is_current: e.target.checked, end_date: '' })}
+              />
+              {am ? 'አሁንም እዚህ እሰራለሁ' : 'I currently work here'}
+            </label>
+          </div>
+        ))}
+        <FieldError message={errors.work_experiences} />
+        {data.work_experiences.length < MAX_ROLES && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => update({ work_experiences: [...data.work_experiences, newRole()] })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {am ? 'ስራ ጨምር' : 'Add a role'}
+          </Button>
+        )}
+      </div>
+
+      {/* Skills */}
+      <div className="space-y-2">
+        <Label htmlFor="skills" className="text-base font-semibold">{content.onboardingForm.skillsLabel}</Label>
+        <div className="flex gap-2">
+          <Input
+            id="skills"
+            placeholder={am ? 'ለምሳሌ ምግብ ማብሰል፣ ማሽከርከር' : 'e.g. Cooking, Forklift driving'}
+            value={skillInput}
+            onChange={e => setSkillInput(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault()
+                addSkill()
+              }
+            }}
+            disabled={data.skills.length >= MAX_SKILLS}
+          />
+          <Button type="button" variant="outline" onClick={addSkill} disabled={!skillInput.trim()}>
+            {am ? 'ጨምር' : 'Add'}
+          </Button>
+        </div>
+        {data.skills.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {data.skills.map(skill => (
+              <Badge key={skill} variant="secondary" className="gap-1">
+                {skill}
+                <button
+                  type="button"
+                  onClick={() => update({ skills: data.skills.filter(s => s !== skill) })}
+                  aria-label={am ? `${skill} አስወግድ` : `Remove ${skill}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Languages */}
+      <div className="space-y-3">
+        <Label className="text-base font-semibold">{am ? 'የሚናገሯቸው ቋንቋዎች' : 'Languages Spoken'}</Label>
+        <datalist id="common-languages">
+          {COMMON_LANGUAGES.map(language => (
+            <option key={language} value={language} />
+          ))}
+        </datalist>
+        {data.languages.map((entry, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              list="common-languages"
+              placeholder={am ? 'ቋንቋ' : 'Language'}
+              value={entry.language}
+              onChange={e =>
+                update({ languages: data.languages.map((l, i) => (i === index ? { ...l, language: e.target.value } : l)) })
+              }
+              onBlur={() => touch('languages')}
+            />
+            <Select
+              value={entry.proficiency}
+              onValueChange={value =>
+                update({
+                  languages: data.languages.map((l, i) =>
+                    i === index ? { ...l, proficiency: value as LanguageProficiency } : l
+                  ),
+                })
+              }
+            >
+              <SelectTrigger className="w-44 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PROFICIENCY_LABELS) as LanguageProficiency[]).map(level => (
+                  <SelectItem key={level} value={level}>
+                    {PROFICIENCY_LABELS[level][currentLanguage]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => update({ languages: data.languages.filter((_, i) => i !== index) })}
+              aria-label={am ? 'አስወግድ' : 'Remove language'}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <FieldError message={errors.languages} />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() =>
+            update({
+              languages: [
+                ...data.languages,
+                // Most applicants list Amharic first
+                { language: data.languages.length === 0 ? 'Amharic' : '', proficiency: data.languages.length === 0 ? 'native' : 'conversational' },
+              ],
+            })
+          }
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          {am ? 'ቋንቋ ጨምር' : 'Add a language'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import type { Destination, JobCategory } from '../../services/api'
+import type { Language } from '@/content/LanguageContext'
+
+/**
+ * Destinations and job categories shown when the API can't be reached.
+ * The backend is the source of truth; keep these roughly in step with it.
+ */
+
+export const MAX_PREFERRED_COUNTRIES = 3
+export const MAX_JOBS_PER_COUNTRY = 3
+
+export const FALLBACK_DESTINATIONS: Destination[] = [
+  { country: 'Poland', country_am: 'ፖላንድ' },
+  { country: 'Germany', country_am: 'ጀርመን' },
+  { country: 'Netherlands', country_am: 'ኔዘርላንድስ' },
+  { country: 'Spain', country_am: 'ስፔን' },
+  { country: 'Italy', country_am: 'ጣሊያን' },
+  { country: 'Luxembourg', country_am: 'ሉክሰምበርግ' },
+]
+
+// [English title, Amharic title] by country
+const fallbackJobs: Record<string, [string, string][]> = {
+  'Poland': [
+    ['Warehouse Worker', 'የመጋዘን ሰራተኛ'],
+    ['Factory Line Operator', 'የፋብሪካ መስመር ኦፕሬተር'],
+    ['Agricultural Laborer (Farm Worker)', 'የግብርና ሰራተኛ (የእርሻ ሰራተኛ)'],
+    ['Construction Helper', 'የግንባታ ረዳት'],
+    ['Cleaner', 'የጽዳት ሰራተኛ'],
+    ['Kitchen Assistant', 'የወጥ ቤት ረዳት'],
+  ],
+  'Germany': [
+    ['Logistics/Warehouse Assistant', 'የሎጂስቲክስ/መጋዘን ረዳት'],
+    ['Construction Laborer', 'የግንባታ ሰራተኛ'],
+    ['Caregiver/Support Worker', 'ተንከባካቢ/የድጋፍ ሰራተኛ'],
+    ['Cleaning Staff', 'የጽዳት ሰራተኛ'],
+    ['Food Processing Line Worker', 'የምግብ ማቀነባበሪያ መስመር ሰራተኛ'],
+  ],
+  'Netherlands': [
+    ['Greenhouse Worker (Horticulture)', 'የግሪንሃውስ ሰራተኛ (አትክልትና ፍራፍሬ)'],
+    ['Warehouse/Logistics Assistant', 'የመጋዘን/ሎጂስቲክስ ረዳት'],
+    ['Factory Line Operator', 'የፋብሪካ መስመር ኦፕሬተር'],
+  ],
+  'Spain': [
+    ['Seasonal Agricultural Worker (Fruit Picker)', 'ወቅታዊ የግብርና ሰራተኛ (ፍራፍሬ ለቃሚ)'],
+    ['Hotel Housekeeping', 'የሆቴል ቤት አያያዝ'],
+    ['Industrial Cleaner', 'የኢንዱስትሪ ጽዳት ሰራተኛ'],
+    ['Delivery Worker', 'የማድረስ ሰራተኛ'],
+  ],
+  'Italy': [
+    ['Seasonal Farm Worker (Agriculture)', 'ወቅታዊ የእርሻ ሰራተኛ (ግብርና)'],
+    ['Hospitality (Kitchen Assistant, Housekeeping)', 'መስተንግዶ (የወጥ ቤት ረዳት፣ ቤት አያያዝ)'],
+  ],
+  'Luxembourg': [
+    ['Cleaning Staff', 'የጽዳት ሰራተኛ'],
+    ['Construction Laborer', 'የግንባታ ሰራተኛ'],
+    ['Warehouse/Factory Worker', 'የመጋዘን/ፋብሪካ ሰራተኛ'],
+    ['Kitchen Helper', 'የወጥ ቤት ረዳት'],
+  ],
+}
+
+// Negative ids so they can never collide with categories from the API
+export const FALLBACK_JOB_CATEGORIES: JobCategory[] = Object.entries(fallbackJobs)
+  .flatMap(([country, jobs]) => jobs.map(([title, title_am]) => ({ country, title, title_am })))
+  .map((job, index) => ({ id: -(index + 1), ...job }))
+
+export function countryLabel(destination: Destination, lang: Language): string {
+  return (lang === 'am' && destination.country_am) || destination.country
+}
+
+/** Amharic title when there is one; the English title is always the stored value */
+export function jobLabel(job: JobCategory, lang: Language): string {
+  return (lang === 'am' && job.title_am) || job.title
+}
@@ -0,0 +1,71 @@
+import type { ApplicationData } from './MultiStepForm'
+
+/**
+ * Local autosave for the application form. The password is never written to storage.
+ */
+
+const DRAFT_KEY = 'application_draft'
+
+export type DraftData = Omit<ApplicationData, 'password'>
+
+export interface StoredDraft {
+  data: DraftData
+  step: number
+  savedAt: number
+}
+
+export function withoutPassword(data: ApplicationData): DraftData {
+  const copy: ApplicationData = { ...data }
+  delete copy.password
+  return copy
+}
+
+/** A draft is only worth offering back if the applicant actually typed something */
+export function hasDraftContent(data: Partial<DraftData>): boolean {
+  return Object.entries(data).some(
+    ([key, value]) => key !== 'referral_code' && (Array.isArray(value) ? value.length > 0 : !!value)
+  )
+}
+
+type LegacyDraftFields = { country?: string; desiredJob?: string }
+
+/** Drafts saved before applicants could rank countries and jobs carry a single `country` and `desiredJob` */
+export function upgradeDraftData<T extends Partial<DraftData>>(data: T & LegacyDraftFields): T {
+  const { country, desiredJob, ...rest } = data
+  const upgraded: Partial<DraftData> = { ...rest }
+  if (country && !rest.preferred_countries) upgraded.preferred_countries = [country]
+  // A bare "Other" never said which job, so there is nothing worth keeping
+  if (country && desiredJob && desiredJob !== 'Other' && !rest.desired_jobs)
+    upgraded.desired_jobs = [{ country, title: desiredJob, is_other: false }]
+  return upgraded as T
+}
+
+export function saveDraft(data: ApplicationData, step: number): void {
+  const draft: StoredDraft = { data: withoutPassword(data), step, savedAt: Date.now() }
+  try {
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(draft))
+  } catch {
+    // Storage full or unavailable; autosave is best effort
+  }
+}
+
+export function loadDraft(): StoredDraft | null {
+  try {
+    const raw = localStorage.getItem(DRAFT_KEY)
+    if (!raw) return null
+    const draft = JSON.parse(raw) as StoredDraft
+    if (!draft || typeof draft.data !== 'object') return null
+    const data = upgradeDraftData(draft.data)
+    return hasDraftContent(data) ? { ...draft, data } : null
+  } catch {
+    return null
+  }
+}
+
+export function clearDraft(): void {
+  try {
+    localStorage.removeItem(DRAFT_KEY)
+  } catch {
+    // ignore
+  }
+}
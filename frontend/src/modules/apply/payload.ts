@@ -0,0 +1,101 @@
+import type { ApplicantProfile, ProfileUpdate, RegistrationPayload } from '../../services/api'
+import type { ApplicationData, DesiredJob } from './MultiStepForm'
+import { normalizePhone } from '@/lib/phone'
+
+// <input type="month"> gives YYYY-MM; the backend stores dates
+const monthToDate = (month: string) => (month ? `${month}-01` : '')
+const dateToMonth = (date: string | null | undefined) => (date ?? '').slice(0, 7)
+
+/** The editable applicant fields, shared by registration and profile updates */
+export function buildProfilePayload(data: ApplicationData): ApplicantProfile {
+  const years = data.years_of_experience.trim()
+  // Grouped by country in preference order, numbered within each country
+  const desiredJobs = data.preferred_countries.flatMap(country =>
+    data.desired_jobs
+      .filter(job => job.country === country)
+      .map((job, index) => ({ country, title: job.title.trim(), priority: index + 1, is_other: job.is_other }))
+  )
+  return {
+    first_name: data.first_name,
+    last_name: data.last_name,
+    username: data.username,
+    email: data.email,
+    phone_number: normalizePhone(data.phone_number),
+    age: data.age,
+    country: data.preferred_countries[0] ?? '',
+    preferred_countries: data.preferred_countries.map((country, index) => ({ country, priority: index + 1 })),
+    // Single-job field older backend code still reads
+    desiredJob: desiredJobs[0]?.title ?? '',
+    desired_jobs: desiredJobs,
+    desiredStartDate: data.desiredStartDate,
+    years_of_experience: years ? Number(years) : null,
+    work_experiences: data.work_experiences.map(role => ({
+      job_title: role.job_title.trim(),
+      company: role.company.trim(),
+      country: role.country.trim(),
+      start_date: monthToDate(role.start_date),
+      end_date: role.is_current ? null : monthToDate(role.end_date),
+      is_current: role.is_current,
+    })),
+    skills: data.skills,
+    languages: data.languages.map(entry => ({ ...entry, language: entry.language.trim() })),
+  }
+}
+
+/** Shape the form state into what registerUser expects */
+export function buildRegistrationPayload(data: ApplicationData): RegistrationPayload {
+  return {
+    ...buildProfilePayload(data),
+    password: data.password,
+    referral_code: data.referral_code || undefined,
+    accepted_terms: data.accepted_terms,
+  }
+}
+
+/** Profile fields for updateProfile; username and email can't be changed there */
+export function buildProfileUpdate(data: ApplicationData): ProfileUpdate {
+  const payload: Partial<ApplicantProfile> = buildProfilePayload(data)
+  delete payload.username
+  delete payload.email
+  return payload
+}
+
+/**
+ * The reverse of buildProfilePayload, for editing a stored profile with the
+ * application form's components. Profiles from before ranked countries and jobs
+ * only have `country` and `desiredJob`.
+ */
+export function profileToFormData(profile: ApplicantProfile): Omit<ApplicationData, 'password' | 'referral_code' | 'accepted_terms'> {
+  const preferred = [...(profile.preferred_countries ?? [])].sort((a, b) => a.priority - b.priority).map(p => p.country)
+  const countries = preferred.length > 0 ? preferred : profile.country ? [profile.country] : []
+
+  let desiredJobs: DesiredJob[] = [...(profile.desired_jobs ?? [])]
+    .sort((a, b) => a.priority - b.priority)
+    .map(({ country, title, is_other }) => ({ country, title, is_other }))
+  if (desiredJobs.length === 0 && profile.desiredJob && countries[0])
+    desiredJobs = [{ country: countries[0], title: profile.desiredJob, is_other: false }]
+
+  return {
+    first_name: profile.first_name ?? '',
+    last_name: profile.last_name ?? '',
+    username: profile.username ?? '',
+    email: profile.email ?? '',
+    phone_number: profile.phone_number ?? '',
+    age: profile.age == null ? '' : String(profile.age),
+    preferred_countries: countries,
+    desired_jobs: desiredJobs,
+    desiredStartDate: dateToMonth(profile.desiredStartDate),
+    years_of_experience: profile.years_of_experience == null ? '' : String(profile.years_of_experience),
+    work_experiences: (profile.work_experiences ?? []).map(role => ({
+      id: crypto.randomUUID(),
+      job_title: role.job_title,
+      company: role.company ?? '',
+      country: role.country ?? '',
+      start_date: dateToMonth(role.start_date),
+      end_date: dateToMonth(role.end_date),
+      is_current: role.is_current,
+    })),
+    skills: profile.skills ?? [],
+    languages: profile.languages ?? [],
+  }
+}
@@ -0,0 +1,9 @@
+import type { LanguageProficiency } from '../../services/api'
+import type { Language } from '@/content/LanguageContext'
+
+export const PROFICIENCY_LABELS: Record<LanguageProficiency, Record<Language, string>> = {
+  basic: { en: 'Basic', am: 'መሰረታዊ' },
+  conversational: { en: 'Conversational', am: 'መግባባት የሚችል' },
+  fluent: { en: 'Fluent', am: 'አቀላጥፎ' },
+  native: { en: 'Native', am: 'የአፍ መፍቻ' },
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react'
+import { checkAvailability } from '../../services/api'
+import type { AvailabilityField } from '../../services/api'
+
+export type AvailabilityStatus = 'idle' | 'checking' | 'available' | 'taken' | 'error'
+
+const DEBOUNCE_MS = 500
+
+interface CheckResult {
+  value: string
+  available: boolean | null
+  suggestions: string[]
+}
+
+/**
+ * Debounced check that a username or email is still free.
+ * Pass `enabled: false` while the value is locally invalid so we don't ask about it.
+ */
+export function useAvailability(field: AvailabilityField, value: string, enabled: boolean) {
+  const [result, setResult] = useState<CheckResult | null>(null)
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      const res = await checkAvailability(field, value)
+      if (cancelled) return
+      setResult({
+        value,
+        available: res.ok ? res.data.available : null,
+        suggestions: res.ok ? res.data.suggestions ?? [] : [],
+      })
+    }, DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [field, value, enabled])
+
+  let status: AvailabilityStatus = 'idle'
+  if (enabled) {
+    // Anything but an answer for the current value means a check is pending
+    if (result?.value !== value) status = 'checking'
+    else if (result.available === null) status = 'error'
+    else status = result.available ? 'available' : 'taken'
+  }
+  return { status, suggestions: status === 'taken' ? result?.suggestions ?? [] : [] }
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react'
+import { fetchDestinations, fetchJobCategories } from '../../services/api'
+import type { Destination, JobCategory } from '../../services/api'
+import { FALLBACK_DESTINATIONS, FALLBACK_JOB_CATEGORIES } from './destinations'
+
+interface DestinationData {
+  destinations: Destination[]
+  jobCategories: JobCategory[]
+  /** True when either list came from the bundled fallback */
+  offline: boolean
+}
+
+/**
+ * Destination countries and job categories for the application form.
+ * Starts from the bundled lists so the step is usable immediately, then
+ * swaps in whatever the API returns.
+ */
+export function useDestinations() {
+  const [state, setState] = useState<DestinationData & { loading: boolean }>({
+    destinations: FALLBACK_DESTINATIONS,
+    jobCategories: FALLBACK_JOB_CATEGORIES,
+    offline: true,
+    loading: true,
+  })
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([fetchDestinations(), fetchJobCategories()]).then(([destinationsRes, jobsRes]) => {
+      if (cancelled) return
+      // An empty list means the table hasn't been filled in yet, which is no better than an outage
+      const destinations = destinationsRes.ok && destinationsRes.data.length > 0 ? destinationsRes.data : null
+      const jobCategories = jobsRes.ok && jobsRes.data.length > 0 ? jobsRes.data : null
+      setState({
+        destinations: destinations ?? FALLBACK_DESTINATIONS,
+        jobCategories: jobCategories ?? FALLBACK_JOB_CATEGORIES,
+        offline: !destinations || !jobCategories,
+        loading: false,
+      })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const { jobCategories } = state
+  const jobsFor = useCallback(
+    (country: string) => jobCategories.filter(job => job.country === country),
+    [jobCategories]
+  )
+
+  return { ...state, jobsFor }
+}
@@ -0,0 +1,251 @@
+import type { ApplicationData } from './MultiStepForm'
+import type { Language } from '@/content/LanguageContext'
+import { validatePhone } from '@/lib/phone'
+
+/**
+ * Validation schema for the application form, one entry per step.
+ * Pure functions only, so the rules can be exercised without rendering the form.
+ */
+
+export type StepId = 'personal' | 'experience' | 'preferences' | 'documents' | 'review'
+export type FieldName = keyof ApplicationData
+export type FieldErrors = Partial<Record<FieldName, string>>
+
+type Message = Record<Language, string>
+type Rule = (value: string, data: ApplicationData) => Message | null
+
+// Rules that only look at their own value, so they also work outside the form
+type ValueRule = (value: string) => Message | null
+
+const required = (message: Message): ValueRule => value => (value.trim() ? null : message)
+
+const NAME_PATTERN = /^[\p{L}\p{M}][\p{L}\p{M}' -]*$/u
+// Mirrors Django's default username validator
+const USERNAME_PATTERN = /^[\w.@+-]+$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/
+
+export const MIN_AGE = 16
+export const MAX_AGE = 65
+export const MAX_YEARS_EXPERIENCE = 50
+
+const currentMonth = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+}
+
+const nameRules = (label: Message): Rule[] => [
+  required({ en: `${label.en} is required`, am: `${label.am} ያስፈልጋል` }),
+  value =>
+    value.trim().length < 2 || value.trim().length > 50
+      ? { en: `${label.en} must be between 2 and 50 characters`, am: `${label.am} ከ2 እስከ 50 ፊደላት መሆን አለበት` }
+      : null,
+  value =>
+    NAME_PATTERN.test(value.trim())
+      ? null
+      : { en: `${label.en} can only contain letters, spaces, hyphens and apostrophes`, am: `${label.am} ፊደላትን ብቻ መያዝ አለበት` },
+]
+
+const passwordRules: ValueRule[] = [
+  required({ en: 'Password is required', am: 'የይለፍ ቃል ያስፈልጋል' }),
+  value =>
+    value.length < 8
+      ? { en: 'Password must be at least 8 characters', am: 'የይለፍ ቃል ቢያንስ 8 ቁምፊዎች መሆን አለበት' }
+      : null,
+  value =>
+    /^\d+$/.test(value)
+      ? { en: 'Password cannot be entirely numeric', am: 'የይለፍ ቃል ቁጥሮችን ብቻ መያዝ የለበትም' }
+      : null,
+]
+
+export const stepSchemas: Record<StepId, Partial<Record<FieldName, Rule[]>>> = {
+  personal: {
+    first_name: nameRules({ en: 'First name', am: 'ስም' }),
+    last_name: nameRules({ en: 'Last name', am: 'የአባት ስም' }),
+    username: [
+      required({ en: 'Username is required', am: 'የተጠቃሚ ስም ያስፈልጋል' }),
+      value =>
+        value.length < 3 || value.length > 30
+          ? { en: 'Username must be between 3 and 30 characters', am: 'የተጠቃሚ ስም ከ3 እስከ 30 ቁምፊዎች መሆን አለበት' }
+          : null,
+      value =>
+        USERNAME_PATTERN.test(value)
+          ? null
+          : {
+              en: 'Username can only contain letters, numbers and @ . + - _',
+              am: 'የተጠቃሚ ስም ፊደላት፣ ቁጥሮች እና @ . + - _ ብቻ መያዝ አለበት',
+            },
+    ],
+    email: [
+      required({ en: 'Email is required', am: 'ኢሜይል ያስፈልጋል' }),
+      value =>
+        EMAIL_PATTERN.test(value.trim())
+          ? null
+          : { en: 'Enter a valid email address', am: 'ትክክለኛ የኢሜይል አድራሻ ያስገቡ' },
+    ],
+    password: passwordRules,
+    phone_number: [
+      required({ en: 'Phone number is required', am: 'ስልክ ቁጥር ያስፈልጋል' }),
+      value => {
+        const problem = validatePhone(value)
+        if (problem === 'ethiopian-prefix')
+          return { en: 'Ethiopian mobile numbers start with 09 or 07', am: 'የኢትዮጵያ ሞባይል ቁጥሮች በ09 ወይም በ07 ይጀምራሉ' }
+        return problem
+          ? { en: 'Enter a valid phone number, e.g. 0911 234 567', am: 'ትክክለኛ ስልክ ቁጥር ያስገቡ፣ ለምሳሌ 0911 234 567' }
+          : null
+      },
+    ],
+    age: [
+      required({ en: 'Age is required', am: 'እድሜ ያስፈልጋል' }),
+      value => {
+        const age = Number(value)
+        return Number.isInteger(age) && age >= MIN_AGE && age <= MAX_AGE
+          ? null
+          : { en: `Age must be a whole number between ${MIN_AGE} and ${MAX_AGE}`, am: `እድሜ ከ${MIN_AGE} እስከ ${MAX_AGE} መሆን አለበት` }
+      },
+    ],
+  },
+  experience: {
+    years_of_experience: [
+      value => {
+        if (!value.trim()) return null
+        const years = Number(value)
+        return Number.isInteger(years) && years >= 0 && years <= MAX_YEARS_EXPERIENCE
+          ? null
+          : {
+              en: `Years of experience must be a whole number between 0 and ${MAX_YEARS_EXPERIENCE}`,
+              am: `የስራ ልምድ ዓመታት ከ0 እስከ ${MAX_YEARS_EXPERIENCE} መሆን አለበት`,
+            }
+      },
+    ],
+    // Whole-list rules: the value string is unused, the roles are read from the data
+    work_experiences: [
+      (_, { work_experiences }) =>
+        work_experiences.some(role => !role.job_title.trim() || !role.start_date)
+          ? { en: 'Every role needs a job title and a start date', am: 'እያንዳንዱ ስራ የስራ መጠሪያ እና የመጀመሪያ ቀን ያስፈልገዋል' }
+          : null,
+      (_, { work_experiences }) =>
+        work_experiences.some(role => role.start_date > currentMonth())
+          ? { en: 'Start dates cannot be in the future', am: 'የመጀመሪያ ቀን ወደፊት መሆን አይችልም' }
+          : null,
+      (_, { work_experiences }) =>
+        work_experiences.some(role => !role.is_current && (!role.end_date || role.end_date < role.start_date))
+          ? {
+              en: 'Add an end date after the start date, or mark the role as current',
+              am: 'ከመጀመሪያው ቀን በኋላ የሚያበቃበትን ቀን ያስገቡ ወይም አሁንም እየሰሩ መሆኑን ይምረጡ',
+            }
+          : null,
+    ],
+    skills: [],
+    languages: [
+      (_, { languages }) =>
+        languages.some(entry => !entry.language.trim())
+          ? { en: 'Enter a name for every language', am: 'ለእያንዳንዱ ቋንቋ ስም ያስገቡ' }
+          : null,
+    ],
+  },
+  preferences: {
+    preferred_countries: [
+      (_, { preferred_countries }) =>
+        preferred_countries.length === 0 ? { en: 'Please choose at least one country', am: 'እባክዎ ቢያንስ አንድ አገር ይምረጡ' } : null,
+    ],
+    desired_jobs: [
+      (_, { preferred_countries, desired_jobs }) => {
+        const missing = preferred_countries.find(country => !desired_jobs.some(job => job.country === country))
+        return missing ? { en: `Please choose a job in ${missing}`, am: `እባክዎ በ${missing} ስራ ይምረጡ` } : null
+      },
+      (_, { desired_jobs }) =>
+        desired_jobs.some(job => job.is_other && job.title.trim().length < 2)
+          ? { en: 'Please describe the job you chose as Other', am: 'እባክዎ "ሌላ" ብለው የመረጡትን ስራ ይግለጹ' }
+          : null,
+    ],
+    desiredStartDate: [
+      required({ en: 'Please choose a start date', am: 'እባክዎ የመጀመሪያ ቀን ይምረጡ' }),
+      value =>
+        value < currentMonth() ? { en: 'Start date cannot be in the past', am: 'የመጀመሪያ ቀን ያለፈ መሆን አይችልም' } : null,
+    ],
+  },
+  // Optional; files are checked as they are picked
+  documents: {},
+  review: {
+    accepted_terms: [
+      (_, { accepted_terms }) =>
+        accepted_terms ? null : { en: 'Please accept the Terms and Conditions to continue', am: 'ለመቀጠል እባክዎ ውሎችን እና ሁኔታዎችን ይቀበሉ' },
+    ],
+  },
+}
+
+/** The step a field lives on, or null for fields the schema doesn't know */
+export function stepOf(field: FieldName): StepId | null {
+  for (const [step, schema] of Object.entries(stepSchemas) as [StepId, Partial<Record<FieldName, Rule[]>>][]) {
+    if (field in schema) return step
+  }
+  return null
+}
+
+/** First failing rule's message for one field */
+export function validateField(field: FieldName, data: ApplicationData, lang: Language): string | null {
+  const step = stepOf(field)
+  const rules = (step && stepSchemas[step][field]) || []
+  const value = String(data[field] ?? '')
+  for (const rule of rules) {
+    const message = rule(value, data)
+    if (message) return message[lang]
+  }
+  return null
+}
+
+/** The registration password rules, for the reset and change-password forms */
+export function validatePassword(value: string, lang: Language): string | null {
+  for (const rule of passwordRules) {
+    const message = rule(value)
+    if (message) return message[lang]
+  }
+  return null
+}
+
+/** Fields a step validates, in schema order */
+export function stepFields(step: StepId): FieldName[] {
+  return Object.keys(stepSchemas[step]) as FieldName[]
+}
+
+export function validateStep(step: StepId, data: ApplicationData, lang: Language): FieldErrors {
+  const errors: FieldErrors = {}
+  for (const field of stepFields(step)) {
+    const message = validateField(field, data, lang)
+    if (message) errors[field] = message
+  }
+  return errors
+}
+
+// Backend names that differ from the form's
+const SERVER_FIELD_ALIASES: Record<string, FieldName> = {
+  phone: 'phone_number',
+  country: 'preferred_countries',
+  desired_job: 'desired_jobs',
+  desiredJob: 'desired_jobs',
+  desired_start_date: 'desiredStartDate',
+}
+
+/**
+ * Attach field errors from registerUser to the matching inputs.
+ * Unknown fields are returned separately so they can still be shown.
+ */
+export function mapServerErrors(fieldErrors: Record<string, string[]>): { errors: FieldErrors; unmatched: string[] } {
+  const errors: FieldErrors = {}
+  const unmatched: string[] = []
+  for (const [key, messages] of Object.entries(fieldErrors)) {
+    const field = SERVER_FIELD_ALIASES[key] ?? key
+    // Nested list errors arrive as objects; they are reported against the whole list
+    const message = messages.find(m => typeof m === 'string')
+    if (!message) continue
+    if (stepOf(field as FieldName) !== null) errors[field as FieldName] = message
+    else unmatched.push(message)
+  }
+  return { errors, unmatched }
+}
+
+/** Earliest step, in the form's order, that has an error */
+export function firstStepWithError(errors: FieldErrors, order: StepId[]): StepId | null {
+  const failing = new Set((Object.keys(errors) as FieldName[]).map(stepOf))
+  return order.find(step => failing.has(step)) ?? null
+}
@@ -1,39 +1,25 @@
-import React, { createContext, useContext, useEffect, useState } from 'react'
+import React, { createContext, useContext, useSyncExternalStore } from 'react'
+import { subscribe, getSnapshot, login, loginWithCode, logout, register, applyTokens } from '../../services/auth'
+import type { AuthUser } from '../../services/auth'
 
 interface AuthContextType {
   token: string | null
-  user: { name?: string; email?: string } | null
-  setToken: (t: string | null) => void
-  setUser: (u: { name?: string; email?: string } | null) => void
-  logout: () => void
+  user: AuthUser | null
+  login: typeof login
+  loginWithCode: typeof loginWithCode
+  logout: typeof logout
+  register: typeof register
+  applyTokens: typeof applyTokens
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export default function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [token, setToken] = useState<string | null>(() => localStorage.getItem('auth_access_token'))
-  const [user, setUser] = useState<{ name?: string; email?: string } | null>(() => {
-    const raw = localStorage.getItem('auth_user')
-    return raw ? JSON.parse(raw) : null
-  })
-
-  useEffect(() => {
-    if (token) localStorage.setItem('auth_access_token', token)
-    else localStorage.removeItem('auth_access_token')
-  }, [token])
-
-  useEffect(() => {
-    if (user) localStorage.setItem('auth_user', JSON.stringify(user))
-    else localStorage.removeItem('auth_user')
-  }, [user])
-
-  const logout = () => {
-    setToken(null)
-    setUser(null)
-  }
+  // The auth store owns the session; the context only mirrors it into React
+  const { token, user } = useSyncExternalStore(subscribe, getSnapshot)
 
   return (
-    <AuthContext.Provider value={{ token, user, setToken, setUser, logout }}>
+    <AuthContext.Provider value={{ token, user, login, loginWithCode, logout, register, applyTokens }}>
       {children}
     </AuthContext.Provider>
   )
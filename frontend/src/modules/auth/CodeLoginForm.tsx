@@ -0,0 +1,165 @@
+import React from 'react';
+import { CODE_LENGTH, toIdentifier, useCodeLogin } from './useCodeLogin';
+import FieldError from '../apply/FieldError';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { Loader2, LogIn, MessageSquare, Send, ShieldAlert } from 'lucide-react';
+import { useLanguage } from '@/content/LanguageContext';
+
+// 90 → "1:30"
+const formatWait = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/** Passwordless sign-in on LoginPage: email or phone, then a one-time code */
+export default function CodeLoginForm({ onSuccess }: { onSuccess: () => void }) {
+  const { currentLanguage } = useLanguage();
+  const am = currentLanguage === 'am';
+  const otp = useCodeLogin();
+  const [input, setInput] = React.useState('');
+  const [inputError, setInputError] = React.useState<string | null>(null);
+  const [code, setCode] = React.useState('');
+  const locked = otp.lockedFor > 0;
+  // The resend timer belongs to the address the last code went to
+  const resendIn = toIdentifier(input).identifier === otp.identifier ? otp.resendIn : 0;
+
+  const onRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!toIdentifier(input).valid) {
+      setInputError(
+        am ? 'ትክክለኛ ኢሜይል ወይም ስልክ ቁጥር ያስገቡ' : 'Enter a valid email address or phone number, e.g. 0911 234 567'
+      );
+      return;
+    }
+    setInputError(null);
+    setCode('');
+    await otp.sendCode(input);
+  };
+
+  const onVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await otp.verify(code)) onSuccess();
+    else setCode('');
+  };
+
+  const lockoutAlert = locked && (
+    <Alert variant="destructive" className="mb-4">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertDescription>
+        {am
+          ? `በጣም ብዙ ሙከራዎች። በ${formatWait(otp.lockedFor)} ውስጥ እንደገና ይሞክሩ፣ ወይም በይለፍ ቃልዎ ይግቡ።`
+          : `Too many attempts. Try again in ${formatWait(otp.lockedFor)}, or sign in with your password.`}
+      </AlertDescription>
+    </Alert>
+  );
+
+  const errorAlert = otp.error && !locked && (
+    <Alert variant="destructive" className="mb-4">
+      <AlertDescription>
+        {otp.error}
+        {otp.attemptsLeft !== null && otp.attemptsLeft > 0 && (
+          <span className="block">
+            {am ? `${otp.attemptsLeft} ሙከራዎች ቀርተዋል።` : `${otp.attemptsLeft} ${otp.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`}
+          </span>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+
+  if (otp.step === 'identify') {
+    return (
+      <>
+        {lockoutAlert}
+        {errorAlert}
+        <form onSubmit={onRequest} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="identifier">{am ? 'ኢሜይል ወይም ስልክ ቁጥር' : 'Email or Phone Number'}</Label>
+            <Input
+              id="identifier"
+              type="text"
+              inputMode="email"
+              autoComplete="username"
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              placeholder={am ? 'ለምሳሌ 0911 234 567' : 'e.g. 0911 234 567 or you@example.com'}
+              aria-invalid={!!inputError}
+              required
+            />
+            <FieldError message={inputError ?? undefined} />
+          </div>
+          <Button type="submit" disabled={otp.busy || locked || resendIn > 0} className="w-full" size="lg">
+            {otp.busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            {resendIn > 0
+              ? am
+                ? `በ${formatWait(resendIn)} ውስጥ ኮድ ይላኩ`
+                : `Send code in ${formatWait(resendIn)}`
+              : am
+                ? 'ኮድ ላክልኝ'
+                : 'Send Me a Code'}
+          </Button>
+        </form>
+      </>
+    );
+  }
+
+  const sentTo = otp.destination ?? otp.identifier;
+
+  return (
+    <>
+      <div className="mb-4 flex items-start gap-2 rounded-md bg-muted p-3 text-sm">
+        <MessageSquare className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+        <p>
+          {otp.channel === 'email'
+            ? am
+              ? `ባለ ${CODE_LENGTH} አሃዝ ኮድ ወደ ${sentTo} ኢሜይል ልከናል።`
+              : `We emailed a ${CODE_LENGTH}-digit code to ${sentTo}.`
+            : am
+              ? `ባለ ${CODE_LENGTH} አሃዝ ኮድ በኤስኤምኤስ ወደ ${sentTo} ልከናል።`
+              : `We texted a ${CODE_LENGTH}-digit code to ${sentTo}.`}
+        </p>
+      </div>
+      {lockoutAlert}
+      {errorAlert}
+      <form onSubmit={onVerify} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="code">{am ? 'የማረጋገጫ ኮድ' : 'Verification Code'}</Label>
+          <Input
+            id="code"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={CODE_LENGTH}
+            value={code}
+            onChange={e => setCode(e.target.value.replace(/\D/g, ''))}
+            className="text-center text-2xl tracking-[0.5em]"
+            disabled={locked}
+            autoFocus
+          />
+        </div>
+        <Button type="submit" disabled={otp.busy || locked || code.length !== CODE_LENGTH} className="w-full" size="lg">
+          {otp.busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+          {am ? 'ግባ' : 'Sign In'}
+        </Button>
+      </form>
+      <div className="mt-4 flex items-center justify-between text-sm">
+        <button type="button" className="text-muted-foreground hover:underline" onClick={otp.startOver}>
+          {am ? 'ሌላ ኢሜይል ወይም ስልክ' : 'Use a different email or phone'}
+        </button>
+        <button
+          type="button"
+          className="font-medium text-primary hover:underline disabled:cursor-not-allowed disabled:text-muted-foreground disabled:no-underline"
+          onClick={() => otp.sendCode()}
+          disabled={otp.busy || locked || otp.resendIn > 0}
+        >
+          {otp.resendIn > 0
+            ? am
+              ? `በ${formatWait(otp.resendIn)} እንደገና ላክ`
+              : `Resend in ${formatWait(otp.resendIn)}`
+            : am
+              ? 'ኮዱን እንደገና ላክ'
+              : 'Resend code'}
+        </button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { requestPasswordReset } from '../../services/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Loader2, Mail, MailCheck } from 'lucide-react';
+import { useLanguage } from '@/content/LanguageContext';
+
+export default function ForgotPasswordPage() {
+  const { currentLanguage } = useLanguage();
+  const am = currentLanguage === 'am';
+  const location = useLocation();
+  // LoginPage and PaymentSuccess pass along whatever the user already typed
+  const initialEmail = (location.state as { email?: string } | null)?.email ?? '';
+  const [email, setEmail] = React.useState(initialEmail.includes('@') ? initialEmail : '');
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [sentTo, setSentTo] = React.useState<string | null>(null);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    const res = await requestPasswordReset(email.trim());
+    setLoading(false);
+    // Unknown addresses get the same answer, so the form can't be used to probe for accounts
+    if (res.ok || res.status === 404) setSentTo(email.trim());
+    else setError(res.error.message);
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 to-indigo-100 min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center space-y-2">
+          <CardTitle className="text-3xl font-bold">{am ? 'የይለፍ ቃል ረሱ?' : 'Forgot Password?'}</CardTitle>
+          <CardDescription className="text-base">
+            {am
+              ? 'የመለያዎን ኢሜይል ያስገቡ፤ አዲስ የይለፍ ቃል ለማዘጋጀት ሊንክ እንልክልዎታለን።'
+              : "Enter your account's email and we'll send you a link to set a new password."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sentTo ? (
+            <div className="space-y-4 text-center">
+              <MailCheck className="mx-auto h-12 w-12 text-green-600" />
+              <p className="text-sm text-muted-foreground">
+                {am
+                  ? `${sentTo} የተመዘገበ ከሆነ፣ የይለፍ ቃል ማደሻ ሊንክ በቅርቡ ይደርሰዋል። የአይፈለጌ መልዕክት ማህደርዎንም ይመልከቱ።`
+                  : `If ${sentTo} belongs to an account, a reset link is on its way. Check your spam folder too.`}
+              </p>
+              <Button type="button" variant="outline" className="w-full" onClick={() => setSentTo(null)}>
+                {am ? 'ሌላ ኢሜይል ይሞክሩ' : 'Try a different email'}
+              </Button>
+            </div>
+          ) : (
+            <>
+              {error && (
+                <Alert variant="destructive" className="mb-4">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <form onSubmit={onSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">{am ? 'ኢሜይል' : 'Email'}</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={e => setEmail(e.target.value)}
+                    placeholder={am ? 'ኢሜይልዎን ያስገቡ' : 'Enter your email'}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <Button type="submit" disabled={loading} className="w-full" size="lg">
+                  {loading ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Mail className="mr-2 h-4 w-4" />
+                  )}
+                  {am ? 'የማደሻ ሊንክ ላክ' : 'Send Reset Link'}
+                </Button>
+              </form>
+            </>
+          )}
+          <div className="mt-6 text-center text-sm">
+            <Link to="/login" className="inline-flex items-center gap-1 text-primary hover:underline font-medium">
+              <ArrowLeft className="h-3 w-3" />
+              {am ? 'ወደ መግቢያ ይመለሱ' : 'Back to sign in'}
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,33 +1,41 @@
 import React from 'react';
-import { useNavigate } from 'react-router-dom';
-import { login, getAccessToken, isAdminToken, logout } from '../../services/auth';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { isAdminToken } from '../../services/auth';
+import { useAuth } from './AuthContext';
+import CodeLoginForm from './CodeLoginForm';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Label } from '@/components/ui/label';
-import { Loader2, LogIn } from 'lucide-react';
+import { KeyRound, Loader2, LogIn, MessageSquare } from 'lucide-react';
 
 export default function LoginPage() {
   const [tab, setTab] = React.useState<'user' | 'admin'>('user');
+  // Admins always use their password
+  const [method, setMethod] = React.useState<'password' | 'code'>('password');
+  const codeLogin = tab === 'user' && method === 'code';
   const [username, setUsername] = React.useState('');
   const [password, setPassword] = React.useState('');
   const [error, setError] = React.useState<string | null>(null);
   const [loading, setLoading] = React.useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
+  // Set by ResetPasswordPage after a successful reset
+  const notice = (location.state as { notice?: string } | null)?.notice;
+  const { login, logout } = useAuth();
 
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setLoading(true);
     try {
-      await login(username, password);
-      const token = getAccessToken();
-      if (!token) throw new Error('Missing token');
+      const { access } = await login(username, password);
+      if (!access) throw new Error('Missing token');
 
       if (tab === 'admin') {
-        if (!isAdminToken(token)) {
+        if (!isAdminToken(access)) {
           logout();
           throw new Error('Admin access required');
         }
@@ -38,8 +46,8 @@ export default function LoginPage() {
       // User tab: just authenticate, let guards handle access control
       // Don't block login based on subscription - let UserGuard handle that
       navigate('/dashboard', { replace: true });
-    } catch (err: any) {
-      setError(err?.message || 'Login failed');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
       setLoading(false);
     }
@@ -62,49 +70,91 @@ export default function LoginPage() {
             </TabsList>
           </Tabs>
 
-          {error && (
-            <Alert variant="destructive" className="mb-4">
-              <AlertDescription>{error}</AlertDescription>
-            </Alert>
+          {codeLogin ? (
+            <CodeLoginForm onSuccess={() => navigate('/dashboard', { replace: true })} />
+          ) : (
+            <>
+              {notice && !error && (
+                <Alert className="mb-4 bg-green-50 border-green-200">
+                  <AlertDescription className="text-green-800">{notice}</AlertDescription>
+                </Alert>
+              )}
+
+              {error && (
+                <Alert variant="destructive" className="mb-4">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <form onSubmit={onSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="username">Email or Username</Label>
+                  <Input
+                    id="username"
+                    type="text"
+                    value={username}
+                    onChange={e => setUsername(e.target.value)}
+                    placeholder="Enter your email or username"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Password</Label>
+                    <Link
+                      to="/forgot-password"
+                      state={{ email: username }}
+                      className="text-sm text-primary hover:underline"
+                    >
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    placeholder="Enter your password"
+                    required
+                  />
+                </div>
+                <Button type="submit" disabled={loading} className="w-full" size="lg">
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Signing in...
+                    </>
+                  ) : (
+                    <>
+                      <LogIn className="mr-2 h-4 w-4" />
+                      Sign In
+                    </>
+                  )}
+                </Button>
+              </form>
+            </>
           )}
 
-          <form onSubmit={onSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="username">Email or Username</Label>
-              <Input
-                id="username"
-                type="text"
-                value={username}
-                onChange={e => setUsername(e.target.value)}
-                placeholder="Enter your email or username"
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={e => setPassword(e.target.value)}
-                placeholder="Enter your password"
-                required
-              />
-            </div>
-            <Button type="submit" disabled={loading} className="w-full" size="lg">
-              {loading ? (
+          {tab === 'user' && (
+            <Button
+              type="button"
+              variant="ghost"
+              className="mt-2 w-full"
+              onClick={() => setMethod(codeLogin ? 'password' : 'code')}
+            >
+              {codeLogin ? (
                 <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing in...
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Sign in with password instead
                 </>
               ) : (
                 <>
-                  <LogIn className="mr-2 h-4 w-4" />
-                  Sign In
+                  <MessageSquare className="mr-2 h-4 w-4" />
+                  Sign in with a one-time code instead
                 </>
               )}
             </Button>
-          </form>
+          )}
           <div className="mt-6 text-center text-sm text-muted-foreground">
             <p>Don't have an account?{' '}
               <a href="/apply" className="text-primary hover:underline font-medium">
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { confirmPasswordReset } from '../../services/api';
+import { validatePassword } from '../apply/validation';
+import FieldError from '../apply/FieldError';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { useLanguage } from '@/content/LanguageContext';
+
+/** Landing page for the link in the reset email: /reset-password?uid=...&token=... */
+export default function ResetPasswordPage() {
+  const { currentLanguage } = useLanguage();
+  const am = currentLanguage === 'am';
+  const navigate = useNavigate();
+  const [params] = useSearchParams();
+  const uid = params.get('uid') ?? '';
+  const token = params.get('token') ?? '';
+  const [password, setPassword] = React.useState('');
+  const [confirm, setConfirm] = React.useState('');
+  const [passwordError, setPasswordError] = React.useState<string | null>(null);
+  const [confirmError, setConfirmError] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const mismatch = am ? 'የይለፍ ቃሎቹ አይመሳሰሉም' : 'Passwords do not match';
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validatePassword(password, currentLanguage);
+    setPasswordError(problem);
+    setConfirmError(password === confirm ? null : mismatch);
+    if (problem || password !== confirm) return;
+
+    setError(null);
+    setLoading(true);
+    const res = await confirmPasswordReset({ uid, token, new_password: password });
+    setLoading(false);
+    if (res.ok) {
+      navigate('/login', {
+        replace: true,
+        state: { notice: am ? 'የይለፍ ቃልዎ ተቀይሯል። በአዲሱ የይለፍ ቃል ይግቡ።' : 'Your password has been reset. Sign in with your new password.' },
+      });
+      return;
+    }
+    const fieldMessage = res.error.fieldErrors.new_password?.[0] ?? res.error.fieldErrors.password?.[0];
+    if (fieldMessage) setPasswordError(fieldMessage);
+    else setError(res.error.message);
+  };
+
+  const linkProblem = !uid || !token;
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 to-indigo-100 min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center space-y-2">
+          <CardTitle className="text-3xl font-bold">{am ? 'አዲስ የይለፍ ቃል' : 'Set a New Password'}</CardTitle>
+          <CardDescription className="text-base">
+            {am ? 'ለመለያዎ አዲስ የይለፍ ቃል ይምረጡ።' : 'Choose a new password for your account.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {linkProblem ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {am
+                  ? 'ይህ የማደሻ ሊንክ ያልተሟላ ነው። ከኢሜይሉ ሙሉውን ሊንክ ይክፈቱ ወይም አዲስ ይጠይቁ።'
+                  : 'This reset link is incomplete. Open the full link from the email, or request a new one.'}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              {error && (
+                <Alert variant="destructive" className="mb-4">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <form onSubmit={onSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="password">{am ? 'አዲስ የይለፍ ቃል' : 'New password'}</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    onBlur={() => password && setPasswordError(validatePassword(password, currentLanguage))}
+                    placeholder={am ? 'ቢያንስ 8 ቁምፊዎች' : 'At least 8 characters'}
+                    aria-invalid={!!passwordError}
+                    disabled={loading}
+                  />
+                  <FieldError message={passwordError ?? undefined} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">{am ? 'የይለፍ ቃሉን ያረጋግጡ' : 'Confirm new password'}</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirm}
+                    onChange={e => setConfirm(e.target.value)}
+                    onBlur={() => confirm && setConfirmError(password === confirm ? null : mismatch)}
+                    aria-invalid={!!confirmError}
+                    disabled={loading}
+                  />
+                  <FieldError message={confirmError ?? undefined} />
+                </div>
+                <Button type="submit" disabled={loading} className="w-full" size="lg">
+                  {loading ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <KeyRound className="mr-2 h-4 w-4" />
+                  )}
+                  {am ? 'የይለፍ ቃል ቀይር' : 'Reset Password'}
+                </Button>
+              </form>
+            </>
+          )}
+          <div className="mt-6 text-center text-sm text-muted-foreground">
+            <Link to="/forgot-password" className="text-primary hover:underline font-medium">
+              {am ? 'አዲስ የማደሻ ሊንክ ይጠይቁ' : 'Request a new reset link'}
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
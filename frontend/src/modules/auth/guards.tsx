@@ -1,141 +1,47 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
-import { getAccessToken, isAdminToken } from '../../services/auth';
-import { fetchUserDashboard } from '../../services/api';
+import { useAuth } from './AuthContext';
+import { useSubscription } from '../subscription/SubscriptionContext';
 
 export const AdminGuard: React.FC<{ children: React.ReactElement }> = ({ children }) => {
-  const token = getAccessToken();
-  if (!token || !isAdminToken(token)) {
+  const { user } = useAuth();
+  if (!user?.isAdmin) {
     return <Navigate to="/login" replace />;
   }
   return children;
 };
 
+// Requires a login but not an active subscription, e.g. for payment history
+export const AuthGuard: React.FC<{ children: React.ReactElement }> = ({ children }) => {
+  const { token } = useAuth();
+  if (!token) return <Navigate to="/login" replace />;
+  return children;
+};
+
 export const UserGuard: React.FC<{ children: React.ReactElement }> = ({ children }) => {
-  const token = getAccessToken();
-  const [allowed, setAllowed] = React.useState<boolean | null>(null);
-  const [needsPayment, setNeedsPayment] = React.useState(false);
-  const [draftId, setDraftId] = React.useState<string | null>(null);
-  const retryCountRef = React.useRef(0);
+  // Read the token from context so an expired session re-renders the guard
+  const { token, user } = useAuth();
+  const { loading, isActive, draftId, pollUntilActive } = useSubscription();
+  // The signed-in user, not the access token: a silent refresh replaces the token
+  // mid-session and must not restart the check below
+  const account = token ? String(user?.id ?? user?.username ?? token) : null;
+  // Account whose grace period has finished; until then an inactive subscription is re-checked
+  const [checkedFor, setCheckedFor] = React.useState<string | null>(null);
 
   React.useEffect(() => {
+    if (!account || loading || isActive || checkedFor === account) return;
     let mounted = true;
-    retryCountRef.current = 0;
-    const maxRetries = 5; // Increased retries for payment processing delay
-    
-    const checkSubscription = async (isRetry = false) => {
-      if (!token) {
-        if (mounted) setAllowed(false);
-        return;
-      }
-      
-      try {
-        const dashboardRes = await fetchUserDashboard();
-        console.log('UserGuard - Dashboard response:', {
-          ok: dashboardRes.ok,
-          subscription_status: dashboardRes.subscription_status,
-          subscription_end_date: dashboardRes.subscription_end_date,
-          retryCount: retryCountRef.current
-        });
-        
-        // Check if request was successful
-        if (!dashboardRes.ok) {
-          // Retry on API errors
-          if (retryCountRef.current < maxRetries) {
-            retryCountRef.current++;
-            console.log(`UserGuard - API error, retrying... (${retryCountRef.current}/${maxRetries})`);
-            setTimeout(() => {
-              if (mounted) checkSubscription(true);
-            }, 2000);
-            return;
-          }
-          if (mounted) {
-            setAllowed(false);
-            setNeedsPayment(true);
-          }
-          return;
-        }
-
-        // Check subscription_status directly since should_prompt_payment is hardcoded to False in backend
-        // Only allow access if subscription_status is 'active' and not expired
-        const subscriptionStatus = dashboardRes.subscription_status;
-        const subscriptionEndDate = dashboardRes.subscription_end_date;
-        
-        // If subscription is 'none' but user might have paid, check for recent payments
-        // The backend dashboard endpoint should auto-update subscription if payment exists
-        // But we'll give it a moment and retry
-        if (subscriptionStatus === 'none' && retryCountRef.current === 0) {
-          console.log('UserGuard - Subscription is none, backend should check for payments. Will retry after delay.')
-        }
-        
-        // Check if subscription is active and not expired
-        let hasActiveSubscription = subscriptionStatus === 'active';
-        
-        // If there's an end date, check if it's in the future
-        if (hasActiveSubscription && subscriptionEndDate) {
-          const endDate = new Date(subscriptionEndDate);
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          hasActiveSubscription = endDate >= today;
-        }
-        
-        console.log('UserGuard - Subscription check:', {
-          subscription_status: subscriptionStatus,
-          subscription_end_date: subscriptionEndDate,
-          hasActiveSubscription,
-          isRetry,
-          retryCount: retryCountRef.current
-        });
-
-        if (hasActiveSubscription) {
-          if (mounted) {
-            setAllowed(true);
-            setNeedsPayment(false);
-          }
-        } else {
-          // If subscription is not active, retry a few times (in case payment was just processed)
-          // Retry for any non-active status, not just 'none'
-          if (retryCountRef.current < maxRetries) {
-            retryCountRef.current++;
-            console.log(`UserGuard - Subscription not active (${subscriptionStatus}), retrying... (${retryCountRef.current}/${maxRetries})`);
-            setTimeout(() => {
-              if (mounted) checkSubscription(true);
-            }, 2000); // Increased delay to 2 seconds
-            return;
-          }
-          
-          // User needs to complete payment - redirect to payment page
-          console.log('UserGuard - Payment required after retries. Redirecting to payment page.');
-          if (mounted) {
-            setAllowed(false);
-            setNeedsPayment(true);
-            // Store draft_id if available for payment page
-            if (dashboardRes.draft_id) {
-              setDraftId(dashboardRes.draft_id);
-            }
-          }
-        }
-      } catch (e) {
-        console.error('UserGuard - Error checking subscription:', e);
-        // Retry on error if we haven't exceeded max retries
-        if (retryCountRef.current < maxRetries) {
-          retryCountRef.current++;
-          console.log(`UserGuard - Error occurred, retrying... (${retryCountRef.current}/${maxRetries})`);
-          setTimeout(() => {
-            if (mounted) checkSubscription(true);
-          }, 2000);
-        } else if (mounted) {
-          setAllowed(false);
-          setNeedsPayment(true);
-        }
-      }
-    };
-    
-    checkSubscription();
+    // A payment that was just made can take a moment to activate the subscription
+    pollUntilActive({ attempts: 3 }).then(() => {
+      if (mounted) setCheckedFor(account);
+    });
     return () => { mounted = false; };
-  }, [token]);
+  }, [account, loading, isActive, checkedFor, pollUntilActive]);
+
+  // Logged out (possibly from another tab) - no need to wait for the subscription check
+  if (!token) return <Navigate to="/login" replace />;
 
-  if (allowed === null) {
+  if (loading || (!isActive && checkedFor !== account)) {
     // Show loading spinner while checking
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
@@ -146,7 +52,7 @@ export const UserGuard: React.FC<{ children: React.ReactElement }> = ({ children
     );
   }
 
-  if (needsPayment) {
+  if (!isActive) {
     // Redirect to payment page with draft_id if available
     return (
       <Navigate 
@@ -157,6 +63,5 @@ export const UserGuard: React.FC<{ children: React.ReactElement }> = ({ children
     );
   }
 
-  if (!allowed) return <Navigate to="/login" replace />;
   return children;
 };
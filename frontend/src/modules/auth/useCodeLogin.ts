@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react'
+import { requestLoginCode } from '../../services/api'
+import type { LoginCodeChannel } from '../../services/api'
+import { useAuth } from './AuthContext'
+import { normalizePhone, validatePhone } from '@/lib/phone'
+
+export type CodeLoginStep = 'identify' | 'code'
+
+export const CODE_LENGTH = 6
+
+// Used when the backend doesn't say how long to wait
+const DEFAULT_RESEND_SECONDS = 60
+const DEFAULT_LOCKOUT_SECONDS = 15 * 60
+
+/** Email addresses pass through lowercased; anything else is read as a phone number */
+export function toIdentifier(value: string): { identifier: string; channel: LoginCodeChannel; valid: boolean } {
+  const trimmed = value.trim()
+  if (trimmed.includes('@')) {
+    return { identifier: trimmed.toLowerCase(), channel: 'email', valid: /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(trimmed) }
+  }
+  return { identifier: normalizePhone(trimmed), channel: 'sms', valid: !validatePhone(trimmed) }
+}
+
+const numberFrom = (body: unknown, keys: string[]): number | null => {
+  if (!body || typeof body !== 'object') return null
+  for (const key of keys) {
+    const value = (body as Record<string, unknown>)[key]
+    if (typeof value === 'number' && value >= 0) return value
+  }
+  return null
+}
+
+/**
+ * State for the one-time code sign-in: ask for a code, then exchange it for
+ * tokens. Tracks the resend timer and the lockout the backend applies after
+ * too many wrong codes.
+ */
+export function useCodeLogin() {
+  const { loginWithCode } = useAuth()
+  const [step, setStep] = useState<CodeLoginStep>('identify')
+  const [identifier, setIdentifier] = useState('')
+  const [channel, setChannel] = useState<LoginCodeChannel>('sms')
+  const [destination, setDestination] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [attemptsLeft, setAttemptsLeft] = useState<number | null>(null)
+  const [resendAt, setResendAt] = useState(0)
+  const [lockedUntil, setLockedUntil] = useState(0)
+  const [now, setNow] = useState(() => Date.now())
+
+  const waiting = resendAt > now || lockedUntil > now
+  useEffect(() => {
+    if (!waiting) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [waiting])
+
+  const secondsUntil = (time: number) => Math.max(0, Math.ceil((time - now) / 1000))
+
+  const waitFor = (setter: (time: number) => void, seconds: number) => {
+    const current = Date.now()
+    setNow(current)
+    setter(current + seconds * 1000)
+  }
+
+  /** Ask for a code; resending uses the identifier from the first request */
+  const sendCode = async (input?: string) => {
+    const target = input === undefined ? { identifier, channel } : toIdentifier(input)
+    setBusy(true)
+    setError(null)
+    const res = await requestLoginCode(target.identifier)
+    setBusy(false)
+    if (res.ok) {
+      setIdentifier(target.identifier)
+      setChannel(res.data.channel ?? target.channel)
+      setDestination(res.data.destination ?? null)
+      setAttemptsLeft(null)
+      setStep('code')
+      waitFor(setResendAt, res.data.resend_in ?? DEFAULT_RESEND_SECONDS)
+      return
+    }
+    if (res.status === 429 || res.status === 423) {
+      const wait = numberFrom(res.error.body, ['resend_in', 'retry_after', 'locked_for'])
+      waitFor(res.status === 423 ? setLockedUntil : setResendAt, wait ?? DEFAULT_RESEND_SECONDS)
+    }
+    setError(res.error.message)
+  }
+
+  /** Resolves to true once signed in */
+  const verify = async (code: string) => {
+    setBusy(true)
+    setError(null)
+    const res = await loginWithCode(identifier, code.trim())
+    setBusy(false)
+    if (res.ok) return true
+    const remaining = numberFrom(res.error.body, ['attempts_remaining', 'attempts_left'])
+    setAttemptsLeft(remaining)
+    // 423 Locked, or 429 once the attempts have run out
+    if (res.status === 423 || res.status === 429 || remaining === 0) {
+      waitFor(setLockedUntil, numberFrom(res.error.body, ['locked_for', 'retry_after']) ?? DEFAULT_LOCKOUT_SECONDS)
+    }
+    setError(res.error.message)
+    return false
+  }
+
+  const startOver = () => {
+    setStep('identify')
+    setError(null)
+    setAttemptsLeft(null)
+  }
+
+  return {
+    step,
+    identifier,
+    channel,
+    destination,
+    busy,
+    error,
+    attemptsLeft,
+    resendIn: secondsUntil(resendAt),
+    lockedFor: secondsUntil(lockedUntil),
+    sendCode,
+    verify,
+    startOver,
+  }
+}
@@ -5,12 +5,15 @@ import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Mail, MessageSquare, User, Send, CheckCircle, Loader2 } from 'lucide-react'
+import { Mail, MessageSquare, User, Send, CheckCircle, Loader2, Phone } from 'lucide-react'
+import PhoneInput from '@/components/PhoneInput'
+import { normalizePhone, validatePhone } from '@/lib/phone'
 
 export default function ContactPage() {
   const [formData, setFormData] = useState({
     name: '',
     email: '',
+    phone: '',
     subject: '',
     message: ''
   })
@@ -20,6 +23,11 @@ export default function ContactPage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    // Phone is optional, but if given it has to be callable
+    if (formData.phone && validatePhone(formData.phone)) {
+      setError('Please enter a valid phone number, or leave it empty.')
+      return
+    }
     setLoading(true)
     setError(null)
     setSuccess(false)
@@ -30,12 +38,12 @@ export default function ContactPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData)
+        body: JSON.stringify({ ...formData, phone: formData.phone ? normalizePhone(formData.phone) : undefined })
       })
 
       if (response.ok) {
         setSuccess(true)
-        setFormData({ name: '', email: '', subject: '', message: '' })
+        setFormData({ name: '', email: '', phone: '', subject: '', message: '' })
         setTimeout(() => setSuccess(false), 5000)
       } else {
         const data = await response.json()
@@ -144,6 +152,19 @@ export default function ContactPage() {
                   />
                 </div>
 
+                {/* Phone Field */}
+                <div className="space-y-2">
+                  <Label htmlFor="phone" className="text-sm font-semibold flex items-center gap-2">
+                    <Phone className="h-4 w-4 text-gray-500" />
+                    Phone Number
+                  </Label>
+                  <PhoneInput
+                    id="phone"
+                    value={formData.phone}
+                    onChange={phone => setFormData(prev => ({ ...prev, phone }))}
+                  />
+                </div>
+
                 {/* Subject Field */}
                 <div className="space-y-2">
                   <Label htmlFor="subject" className="text-sm font-semibold flex items-center gap-2">
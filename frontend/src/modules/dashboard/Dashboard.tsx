@@ -1,37 +1,36 @@
 import { useEffect, useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { Link, useNavigate } from 'react-router-dom'
 import { useAuth } from '../auth/AuthContext'
+import { useSubscription } from '../subscription/SubscriptionContext'
 import { useLanguage } from '@/content/LanguageContext'
-import { fetchUserDashboard, fetchJobSites, fetchPopularCountries } from '../../services/api'
+import { fetchJobSites, fetchPopularCountries } from '../../services/api'
+import type { JobSite, PopularCountry } from '../../services/api'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { ExternalLink, MapPin, Briefcase, Globe, Star, ChevronRight, Copy, Check } from 'lucide-react'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { ExternalLink, MapPin, Briefcase, Globe, Star, ChevronRight, Copy, Check, AlertTriangle, RefreshCw, Pencil } from 'lucide-react'
 import { getCountryFlag } from '@/lib/countryFlags'
 import { getCountryImage } from '@/lib/countryImages'
-
-interface JobSite { 
-  id: number
-  country: string
-  site_name: string
-  site_url: string
-}
-
-interface PopularCountry {
-  country: string
-  site_count: number
-}
+import { formatEndDate, RENEWAL_WARNING_DAYS } from '@/lib/subscription'
+import DocumentsCard from '../documents/DocumentsCard'
+import VerifyEmailBanner from '../verification/VerifyEmailBanner'
 
 export default function Dashboard() {
   const { user } = useAuth()
-  const { content } = useLanguage()
+  const { content, currentLanguage } = useLanguage()
   const navigate = useNavigate()
-  const [country, setCountry] = useState<string>('')
-  const [sites, setSites] = useState<JobSite[]>([])
+  // The dashboard (user's country and curated job sites) is fetched once by SubscriptionProvider
+  // UserGuard ensures only users with active subscriptions can access this
+  const { dashboard, loading: loadingDashboard, daysRemaining, endDate } = useSubscription()
+  const showRenewalWarning = daysRemaining !== null && daysRemaining < RENEWAL_WARNING_DAYS
+  const country = dashboard?.country || ''
+  const sites = dashboard?.job_sites || []
   const [allSites, setAllSites] = useState<JobSite[]>([])
   const [popularCountries, setPopularCountries] = useState<PopularCountry[]>([])
   const [showAllCountries, setShowAllCountries] = useState(false)
-  const [loading, setLoading] = useState(true)
+  const [loadingAll, setLoadingAll] = useState(false)
+  const loading = loadingDashboard || loadingAll
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null)
 
   const copyToClipboard = async (url: string) => {
@@ -46,25 +45,14 @@ export default function Dashboard() {
 
   useEffect(() => {
     (async () => {
-      setLoading(true)
       try {
-        // Fetch dashboard data (includes user's country and filtered job sites)
-        // UserGuard ensures only users with active subscriptions can access this
-        const dashboardRes = await fetchUserDashboard()
-        if (dashboardRes.ok) {
-          setCountry(dashboardRes.country || '')
-          setSites(dashboardRes.job_sites || [])
-        }
-
         // Fetch popular countries
         const popularRes = await fetchPopularCountries()
-        if (popularRes.ok && popularRes.popular_countries) {
-          setPopularCountries(popularRes.popular_countries)
+        if (popularRes.ok) {
+          setPopularCountries(popularRes.data.popular_countries || [])
         }
       } catch (error) {
-        console.error('Error fetching dashboard data:', error)
-      } finally {
-        setLoading(false)
+        console.error('Error fetching popular countries:', error)
       }
     })()
   }, [])
@@ -75,39 +63,29 @@ export default function Dashboard() {
       setShowAllCountries(false)
       if (country) {
         await handleViewCountry(country)
-      } else {
-        // If no country, fetch user dashboard again
-        setLoading(true)
-        try {
-          const dashboardRes = await fetchUserDashboard()
-          if (dashboardRes.ok) {
-            setSites(dashboardRes.job_sites || [])
-          }
-        } catch (error) {
-          console.error('Error fetching dashboard data:', error)
-        } finally {
-          setLoading(false)
-        }
       }
       return
     }
 
-    setLoading(true)
+    setLoadingAll(true)
     try {
       const res = await fetchJobSites()
-      // Handle different response formats
       if (res.ok) {
-        const jobSites = res.results || res.data || (Array.isArray(res) ? res : [])
-        setAllSites(jobSites)
+        setAllSites(res.data)
       }
       setShowAllCountries(true)
     } catch (error) {
       console.error('Error fetching all job sites:', error)
     } finally {
-      setLoading(false)
+      setLoadingAll(false)
     }
   }
 
+  const handleRenew = () => {
+    // Renewals don't need an application draft; PaymentSuccess brings the user back here
+    navigate('/payment', { state: { renewal: true } })
+  }
+
   const handleViewCountry = (countryName: string) => {
     // Navigate to /sites page with country parameter
     navigate(`/sites?country=${encodeURIComponent(countryName)}`)
@@ -115,8 +93,13 @@ export default function Dashboard() {
 
   const displaySites = showAllCountries ? allSites : sites
 
+  const renderDaysRemaining = (days: number) => {
+    if (days <= 0) return content.dashboard.expiresToday
+    return `${days} ${days === 1 ? content.dashboard.dayRemaining : content.dashboard.daysRemaining}`
+  }
+
   // Get user name from various possible properties
-  const userName = user?.name || (user as any)?.first_name || (user as any)?.username || ''
+  const userName = user?.name || user?.username || ''
 
   return (
     <div className="bg-gradient-to-br from-blue-50 via-blue-100 to-indigo-50 min-h-[calc(100vh-4rem)]">
@@ -131,6 +114,28 @@ export default function Dashboard() {
           </p>
         </div>
 
+        {/* Email Verification */}
+        {dashboard?.email_verified === false && (dashboard.email || user?.email) && (
+          <VerifyEmailBanner email={dashboard.email || user?.email || ''} />
+        )}
+
+        {/* Renewal Reminder */}
+        {showRenewalWarning && (
+          <Alert className="mb-8 border-amber-300 bg-amber-50 text-amber-900">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{content.dashboard.expiringSoonTitle}</AlertTitle>
+            <AlertDescription className="text-amber-800">
+              <p>
+                {renderDaysRemaining(daysRemaining)}. {content.dashboard.expiringSoonMessage}
+              </p>
+              <Button size="sm" className="mt-2" onClick={handleRenew}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                {content.dashboard.renewNow}
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid gap-6 md:grid-cols-3 mb-8">
           {/* Country Card */}
           <Card>
@@ -143,9 +148,15 @@ export default function Dashboard() {
                 {country && <span className="text-3xl">{getCountryFlag(country)}</span>}
                 <div className="text-2xl font-bold">{country || '—'}</div>
               </div>
-              <p className="text-xs text-muted-foreground mt-2">
-                {content.dashboard.preferredDestination}
-              </p>
+              <div className="flex items-center justify-between mt-2">
+                <p className="text-xs text-muted-foreground">
+                  {content.dashboard.preferredDestination}
+                </p>
+                <Link to="/profile" className="flex items-center gap-1 text-xs text-primary hover:underline">
+                  <Pencil className="h-3 w-3" />
+                  {content.dashboard.editProfile}
+                </Link>
+              </div>
             </CardContent>
           </Card>
 
@@ -174,6 +185,16 @@ export default function Dashboard() {
               <Badge variant="secondary" className="text-xs">
                 {content.dashboard.premiumAccess}
               </Badge>
+              {daysRemaining !== null && (
+                <p className={`text-xs mt-2 ${showRenewalWarning ? 'text-amber-700 font-medium' : 'text-muted-foreground'}`}>
+                  {renderDaysRemaining(daysRemaining)}
+                </p>
+              )}
+              {endDate && (
+                <p className="text-xs text-muted-foreground">
+                  {content.dashboard.expiresOn} {formatEndDate(endDate, currentLanguage === 'am' ? 'am-ET' : 'en-US')}
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -302,6 +323,8 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
+        <DocumentsCard />
+
         {/* Popular Countries Section */}
         {popularCountries.length > 0 && (
           <Card>
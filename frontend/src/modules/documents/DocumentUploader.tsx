@@ -0,0 +1,173 @@
+import { useRef, useState } from 'react'
+import type { DragEvent } from 'react'
+import type { UploadItem } from './useDocumentUploads'
+import type { DocumentRule } from './documentRules'
+import { acceptAttribute, isImage, isPdf, validateDocumentFile } from './documentRules'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { CheckCircle2, FileText, RotateCcw, Upload, X } from 'lucide-react'
+import { useLanguage } from '@/content/LanguageContext'
+import { formatFileSize } from '@/lib/format'
+import { cn } from '@/lib/utils'
+
+interface DocumentUploaderProps {
+  rule: DocumentRule
+  /** Local uploads of this document type */
+  items: UploadItem[]
+  /** Files of this type already stored on the server, counted against the limit */
+  existingCount?: number
+  onAdd: (files: File[]) => void
+  onRetry: (item: UploadItem) => void
+  onRemove: (key: string) => void
+}
+
+/** Thumbnail for images, the first page for PDFs, an icon for anything else */
+export function FilePreview({ url, contentType, name }: { url: string; contentType?: string; name: string }) {
+  if (isImage(contentType)) {
+    return <img src={url} alt={name} className="h-20 w-16 shrink-0 rounded border object-cover" />
+  }
+  if (isPdf(contentType, name)) {
+    return (
+      <object
+        data={`${url}#page=1&toolbar=0&navpanes=0&view=FitH`}
+        type="application/pdf"
+        aria-label={name}
+        className="pointer-events-none h-20 w-16 shrink-0 overflow-hidden rounded border bg-white"
+      >
+        <FileText className="h-full w-full p-4 text-muted-foreground" />
+      </object>
+    )
+  }
+  return (
+    <div className="flex h-20 w-16 shrink-0 items-center justify-center rounded border bg-muted">
+      <FileText className="h-6 w-6 text-muted-foreground" />
+    </div>
+  )
+}
+
+export default function DocumentUploader({ rule, items, existingCount = 0, onAdd, onRetry, onRemove }: DocumentUploaderProps) {
+  const { currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [dragging, setDragging] = useState(false)
+  const [rejections, setRejections] = useState<string[]>([])
+  const remaining = rule.maxFiles - existingCount - items.length
+
+  const accept = (files: File[]) => {
+    const problems: string[] = []
+    const valid = files.filter(file => {
+      const message = validateDocumentFile(file, rule, currentLanguage)
+      if (message) problems.push(message)
+      return !message
+    })
+    if (valid.length > remaining) {
+      problems.push(
+        am
+          ? `ከ${rule.maxFiles} በላይ ${rule.label.am} መጫን አይቻልም`
+          : `You can upload at most ${rule.maxFiles} ${rule.maxFiles === 1 ? 'file' : 'files'} for ${rule.label.en}`
+      )
+    }
+    setRejections(problems)
+    const accepted = valid.slice(0, Math.max(remaining, 0))
+    if (accepted.length > 0) onAdd(accepted)
+  }
+
+  const onDrop = (e: DragEvent) => {
+    e.preventDefault()
+    setDragging(false)
+    accept(Array.from(e.dataTransfer.files))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="font-medium">{rule.label[currentLanguage]}</p>
+        <p className="text-xs text-muted-foreground">
+          {rule.hint[currentLanguage]} · {am ? 'ከፍተኛ' : 'max'} {formatFileSize(rule.maxBytes)}
+        </p>
+      </div>
+
+      {remaining > 0 && (
+        <div
+          onDragOver={e => {
+            e.preventDefault()
+            setDragging(true)
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={onDrop}
+          className={cn(
+            'flex flex-col items-center gap-2 rounded-md border-2 border-dashed p-6 text-center text-sm text-muted-foreground transition-colors',
+            dragging && 'border-primary bg-primary/5'
+          )}
+        >
+          <Upload className="h-6 w-6" />
+          <span>{am ? 'ፋይሉን እዚህ ይጎትቱ ወይም' : 'Drag a file here, or'}</span>
+          <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+            {am ? 'ፋይል ይምረጡ' : 'Choose file'}
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            className="hidden"
+            accept={acceptAttribute(rule)}
+            multiple={rule.maxFiles > 1}
+            onChange={e => {
+              accept(Array.from(e.target.files ?? []))
+              // Let the same file be picked again after removing it
+              e.target.value = ''
+            }}
+          />
+        </div>
+      )}
+
+      {rejections.map(message => (
+        <p key={message} className="text-sm text-destructive">{message}</p>
+      ))}
+
+      {items.map(item => (
+        <div key={item.key} className="flex items-center gap-3 rounded-md border p-3">
+          <FilePreview url={item.previewUrl} contentType={item.file.type} name={item.file.name} />
+          <div className="min-w-0 flex-1 space-y-1">
+            <p className="truncate text-sm font-medium">{item.file.name}</p>
+            <p className="text-xs text-muted-foreground">{formatFileSize(item.file.size)}</p>
+            {item.status === 'uploading' && <Progress value={Math.round(item.progress * 100)} className="h-1.5" />}
+            {item.status === 'queued' && (
+              <p className="text-xs text-muted-foreground">
+                {am ? 'ማመልከቻዎን ሲያስገቡ ይጫናል' : 'Uploads when you submit your application'}
+              </p>
+            )}
+            {item.status === 'done' && (
+              <p className="flex items-center gap-1 text-xs text-green-600">
+                <CheckCircle2 className="h-3.5 w-3.5" />
+                {am ? 'ተጭኗል' : 'Uploaded'}
+              </p>
+            )}
+            {item.status === 'error' && (
+              <p className="text-xs text-destructive">
+                {am ? 'መጫን አልተሳካም' : 'Upload failed'}
+                {item.error && `: ${item.error}`}
+              </p>
+            )}
+          </div>
+          {item.status === 'error' && (
+            <Button type="button" variant="outline" size="sm" onClick={() => onRetry(item)}>
+              <RotateCcw className="mr-1 h-3.5 w-3.5" />
+              {am ? 'እንደገና' : 'Retry'}
+            </Button>
+          )}
+          {item.status !== 'done' && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onRemove(item.key)}
+              aria-label={am ? 'አስወግድ' : `Remove ${item.file.name}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
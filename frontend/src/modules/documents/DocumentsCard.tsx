@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react'
+import { deleteDocument, fetchDocuments } from '../../services/api'
+import type { ApplicantDocument } from '../../services/api'
+import { DOCUMENT_RULES } from './documentRules'
+import { useDocumentUploads } from './useDocumentUploads'
+import DocumentUploader, { FilePreview } from './DocumentUploader'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ExternalLink, FileText, Loader2, Trash2 } from 'lucide-react'
+import { useLanguage } from '@/content/LanguageContext'
+import { formatDateTime } from '@/lib/format'
+
+/** The applicant's uploaded documents, with uploading and removal from the dashboard */
+export default function DocumentsCard() {
+  const { currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const [documents, setDocuments] = useState<ApplicantDocument[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [deleting, setDeleting] = useState<number | null>(null)
+  const uploads = useDocumentUploads({
+    autoUpload: true,
+    onUploaded: document => setDocuments(list => [...list, document]),
+  })
+
+  useEffect(() => {
+    let cancelled = false
+    fetchDocuments().then(res => {
+      if (cancelled) return
+      if (res.ok) setDocuments(res.data)
+      else setError(res.error.message)
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const remove = async (document: ApplicantDocument) => {
+    setDeleting(document.id)
+    const res = await deleteDocument(document.id)
+    setDeleting(null)
+    if (res.ok) setDocuments(list => list.filter(d => d.id !== document.id))
+    else setError(res.error.message)
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          {am ? 'የእኔ ሰነዶች' : 'My Documents'}
+        </CardTitle>
+        <CardDescription>
+          {am
+            ? 'አማካሪዎቻችን ማመልከቻዎን እንዲያዘጋጁ ፓስፖርትዎን፣ CV እና የምስክር ወረቀቶችዎን ይጫኑ።'
+            : 'Upload your passport, CV and certificates so our consultants can prepare your application.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          DOCUMENT_RULES.map(rule => {
+            const stored = documents.filter(d => d.document_type === rule.type)
+            return (
+              <div key={rule.type} className="space-y-3">
+                {stored.map(document => (
+                  <div key={document.id} className="flex items-center gap-3 rounded-md border p-3">
+                    <FilePreview url={document.file_url} contentType={document.content_type} name={document.file_name} />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">{document.file_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {rule.label[currentLanguage]} · {formatDateTime(document.uploaded_at)}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="icon" asChild>
+                      <a href={document.file_url} target="_blank" rel="noopener noreferrer" aria-label={am ? 'ክፈት' : 'Open'}>
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(document)}
+                      disabled={deleting === document.id}
+                      aria-label={am ? 'ሰርዝ' : `Delete ${document.file_name}`}
+                    >
+                      {deleting === document.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                ))}
+                <DocumentUploader
+                  rule={rule}
+                  // Finished uploads are listed above with the stored documents
+                  items={uploads.items.filter(item => item.type === rule.type && item.status !== 'done')}
+                  existingCount={stored.length}
+                  onAdd={files => uploads.add(rule.type, files)}
+                  onRetry={uploads.retry}
+                  onRemove={uploads.remove}
+                />
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
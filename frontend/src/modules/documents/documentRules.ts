@@ -0,0 +1,87 @@
+import type { DocumentType } from '../../services/api'
+import type { Language } from '@/content/LanguageContext'
+import { formatFileSize } from '@/lib/format'
+
+/**
+ * What each kind of applicant document may be. The backend re-checks all of
+ * this; validating here just saves a slow upload on a mobile connection.
+ */
+
+export interface DocumentRule {
+  type: DocumentType
+  label: Record<Language, string>
+  hint: Record<Language, string>
+  /** Accepted MIME types */
+  mimeTypes: string[]
+  /** Matched when the browser reports no MIME type */
+  extensions: string[]
+  maxBytes: number
+  maxFiles: number
+}
+
+const MB = 1024 * 1024
+const PDF = 'application/pdf'
+const IMAGES = ['image/jpeg', 'image/png']
+const WORD = ['application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+
+export const DOCUMENT_RULES: DocumentRule[] = [
+  {
+    type: 'passport',
+    label: { en: 'Passport', am: 'ፓስፖርት' },
+    hint: { en: 'Photo page, as a clear photo or PDF scan', am: 'የፎቶ ገጹ፣ ግልጽ ፎቶ ወይም PDF' },
+    mimeTypes: [PDF, ...IMAGES],
+    extensions: ['.pdf', '.jpg', '.jpeg', '.png'],
+    maxBytes: 5 * MB,
+    maxFiles: 1,
+  },
+  {
+    type: 'cv',
+    label: { en: 'CV / Résumé', am: 'የስራ ታሪክ (CV)' },
+    hint: { en: 'PDF or Word document', am: 'PDF ወይም Word ሰነድ' },
+    mimeTypes: [PDF, ...WORD],
+    extensions: ['.pdf', '.doc', '.docx'],
+    maxBytes: 5 * MB,
+    maxFiles: 1,
+  },
+  {
+    type: 'certificate',
+    label: { en: 'Certificates', am: 'የምስክር ወረቀቶች' },
+    hint: { en: 'Education or training certificates, up to 5', am: 'የትምህርት ወይም የስልጠና ማስረጃዎች፣ እስከ 5' },
+    mimeTypes: [PDF, ...IMAGES],
+    extensions: ['.pdf', '.jpg', '.jpeg', '.png'],
+    maxBytes: 5 * MB,
+    maxFiles: 5,
+  },
+]
+
+/** Value for the file input's `accept` attribute */
+export function acceptAttribute(rule: DocumentRule): string {
+  return [...rule.mimeTypes, ...rule.extensions].join(',')
+}
+
+/** Why a file can't be uploaded as this document, or null if it can */
+export function validateDocumentFile(file: File, rule: DocumentRule, lang: Language): string | null {
+  const name = file.name.toLowerCase()
+  const typeOk = file.type
+    ? rule.mimeTypes.includes(file.type)
+    : rule.extensions.some(extension => name.endsWith(extension))
+  if (!typeOk) {
+    const allowed = rule.extensions.map(extension => extension.slice(1).toUpperCase()).join(', ')
+    return lang === 'am'
+      ? `${file.name}: የሚፈቀዱት ${allowed} ብቻ ናቸው`
+      : `${file.name}: only ${allowed} files are accepted`
+  }
+  if (file.size > rule.maxBytes) {
+    return lang === 'am'
+      ? `${file.name}: ፋይሉ ከ${formatFileSize(rule.maxBytes)} መብለጥ የለበትም`
+      : `${file.name}: file is larger than ${formatFileSize(rule.maxBytes)}`
+  }
+  if (file.size === 0) {
+    return lang === 'am' ? `${file.name}: ፋይሉ ባዶ ነው` : `${file.name}: file is empty`
+  }
+  return null
+}
+
+export const isImage = (contentType: string | undefined) => !!contentType?.startsWith('image/')
+export const isPdf = (contentType: string | undefined, name = '') =>
+  contentType === PDF || name.toLowerCase().endsWith('.pdf')
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from 'react'
+import { uploadDocument } from '../../services/api'
+import type { ApplicantDocument, DocumentType } from '../../services/api'
+
+export type UploadStatus = 'queued' | 'uploading' | 'done' | 'error'
+
+export interface UploadItem {
+  key: string
+  type: DocumentType
+  file: File
+  /** Object URL for thumbnails, revoked when the item goes away */
+  previewUrl: string
+  status: UploadStatus
+  /** 0 to 1 */
+  progress: number
+  error?: string
+  document?: ApplicantDocument
+}
+
+interface UploadOptions {
+  /** Start uploading as soon as files are added; otherwise they wait for uploadAll() */
+  autoUpload?: boolean
+  onUploaded?: (document: ApplicantDocument) => void
+}
+
+/**
+ * Files picked for upload and their progress. Files are validated by the
+ * caller before they get here.
+ */
+export function useDocumentUploads({ autoUpload = false, onUploaded }: UploadOptions = {}) {
+  const [items, setItems] = useState<UploadItem[]>([])
+  const itemsRef = useRef(items)
+  const controllers = useRef(new Map<string, AbortController>())
+  const previewUrls = useRef(new Set<string>())
+
+  useEffect(() => {
+    itemsRef.current = items
+  }, [items])
+
+  useEffect(() => {
+    const active = controllers.current
+    const urls = previewUrls.current
+    return () => {
+      active.forEach(controller => controller.abort())
+      urls.forEach(url => URL.revokeObjectURL(url))
+    }
+  }, [])
+
+  const patch = (key: string, changes: Partial<UploadItem>) =>
+    setItems(list => list.map(item => (item.key === key ? { ...item, ...changes } : item)))
+
+  const upload = async (item: UploadItem): Promise<boolean> => {
+    const controller = new AbortController()
+    controllers.current.set(item.key, controller)
+    patch(item.key, { status: 'uploading', progress: 0, error: undefined })
+
+    const res = await uploadDocument(item.type, item.file, {
+      signal: controller.signal,
+      onProgress: progress => patch(item.key, { progress }),
+    })
+    controllers.current.delete(item.key)
+    // Removed while uploading; the item is already gone
+    if (controller.signal.aborted) return false
+
+    if (res.ok) {
+      patch(item.key, { status: 'done', progress: 1, document: res.data })
+      onUploaded?.(res.data)
+      return true
+    }
+    patch(item.key, { status: 'error', error: res.error.message })
+    return false
+  }
+
+  const add = (type: DocumentType, files: File[]) => {
+    const added: UploadItem[] = files.map(file => {
+      const previewUrl = URL.createObjectURL(file)
+      previewUrls.current.add(previewUrl)
+      return { key: crypto.randomUUID(), type, file, previewUrl, status: 'queued', progress: 0 }
+    })
+    setItems(list => [...list, ...added])
+    if (autoUpload) added.forEach(item => void upload(item))
+  }
+
+  const remove = (key: string) => {
+    controllers.current.get(key)?.abort()
+    controllers.current.delete(key)
+    const item = itemsRef.current.find(i => i.key === key)
+    if (item) {
+      URL.revokeObjectURL(item.previewUrl)
+      previewUrls.current.delete(item.previewUrl)
+    }
+    setItems(list => list.filter(i => i.key !== key))
+  }
+
+  /** Uploads everything not yet uploaded, one at a time; true when all of it made it */
+  const uploadAll = async (): Promise<boolean> => {
+    let allOk = true
+    for (const item of itemsRef.current) {
+      if (item.status === 'done' || item.status === 'uploading') continue
+      if (!(await upload(item))) allOk = false
+    }
+    return allOk
+  }
+
+  const pending = items.filter(item => item.status !== 'done').length
+
+  return { items, add, remove, retry: upload, uploadAll, pending }
+}
+
+export type DocumentUploads = ReturnType<typeof useDocumentUploads>
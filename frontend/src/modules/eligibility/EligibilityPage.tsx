@@ -0,0 +1,274 @@
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import type { DesiredJob } from '../apply/MultiStepForm'
+import { useDestinations } from '../apply/useDestinations'
+import { countryLabel, MAX_PREFERRED_COUNTRIES } from '../apply/destinations'
+import { PROFICIENCY_LABELS } from '../apply/proficiency'
+import DesiredJobsPicker from '../apply/DesiredJobsPicker'
+import FieldError from '../apply/FieldError'
+import { evaluateEligibility, QUIZ_LANGUAGES } from './eligibility'
+import type { EligibilityAnswers, EligibilityPrefill, EligibilityResult, EligibilityStatus, LanguageLevel, PassportStatus } from './eligibility'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowRight, ClipboardList, RotateCcw } from 'lucide-react'
+import { useLanguage } from '@/content/LanguageContext'
+import { getCountryFlag } from '@/lib/countryFlags'
+import { cn } from '@/lib/utils'
+
+const initialAnswers: EligibilityAnswers = {
+  age: '',
+  passport: 'valid',
+  passportExpiry: '',
+  languages: Object.fromEntries(QUIZ_LANGUAGES.map(language => [language.name, 'none'])),
+}
+
+const STATUS_BADGES: Record<EligibilityStatus, { variant: 'default' | 'secondary' | 'destructive'; en: string; am: string }> = {
+  eligible: { variant: 'default', en: 'Good fit', am: 'ተስማሚ' },
+  conditional: { variant: 'secondary', en: 'Possible, with preparation', am: 'በዝግጅት የሚቻል' },
+  ineligible: { variant: 'destructive', en: 'Not a fit right now', am: 'አሁን ተስማሚ አይደለም' },
+}
+
+/** Short pre-application questionnaire; its result pre-fills /apply */
+export default function EligibilityPage() {
+  const { currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const navigate = useNavigate()
+  const { destinations, jobsFor } = useDestinations()
+  const [answers, setAnswers] = useState<EligibilityAnswers>(initialAnswers)
+  const [answerError, setAnswerError] = useState<string | null>(null)
+  const [results, setResults] = useState<EligibilityResult[] | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [desiredJobs, setDesiredJobs] = useState<DesiredJob[]>([])
+
+  const countryName = (country: string) => {
+    const destination = destinations.find(d => d.country === country)
+    return destination ? countryLabel(destination, currentLanguage) : country
+  }
+
+  const evaluate = () => {
+    const age = Number(answers.age)
+    if (!answers.age || !Number.isInteger(age) || age < 10 || age > 99) {
+      setAnswerError(am ? 'እባክዎ ትክክለኛ እድሜ ያስገቡ' : 'Please enter your age')
+      return
+    }
+    if (answers.passport === 'valid' && !answers.passportExpiry) {
+      setAnswerError(am ? 'እባክዎ ፓስፖርትዎ የሚያበቃበትን ወር ያስገቡ' : 'Please enter when your passport expires')
+      return
+    }
+    setAnswerError(null)
+    const evaluated = evaluateEligibility(destinations.map(d => d.country), answers)
+    setResults(evaluated)
+    // Start from the best fits; the applicant can change the picks
+    setSelected(
+      evaluated
+        .filter(result => result.status === 'eligible')
+        .slice(0, MAX_PREFERRED_COUNTRIES)
+        .map(result => result.country)
+    )
+    setDesiredJobs([])
+  }
+
+  const toggleCountry = (country: string) => {
+    if (selected.includes(country)) {
+      setSelected(list => list.filter(c => c !== country))
+      setDesiredJobs(list => list.filter(job => job.country !== country))
+    } else if (selected.length < MAX_PREFERRED_COUNTRIES) {
+      setSelected(list => [...list, country])
+    }
+  }
+
+  const continueToApplication = () => {
+    const eligibility: EligibilityPrefill = {
+      age: answers.age,
+      preferred_countries: selected,
+      // "Other" without a description would only fail validation on the form
+      desired_jobs: desiredJobs.filter(job => !job.is_other || job.title.trim()),
+    }
+    navigate('/apply', { state: { eligibility } })
+  }
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 to-indigo-100 min-h-[calc(100vh-4rem)] py-12">
+      <div className="max-w-2xl mx-auto px-4 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <ClipboardList className="h-5 w-5" />
+              <div>
+                <CardTitle className="text-2xl">{am ? 'የብቁነት ማረጋገጫ' : 'Check Your Eligibility'}</CardTitle>
+                <CardDescription>
+                  {am
+                    ? 'ከመክፈልዎ በፊት የትኞቹ አገሮች ለእርስዎ እንደሚስማሙ ይወቁ። አንድ ደቂቃ ይወስዳል።'
+                    : 'Find out which destinations suit you before you pay. It takes about a minute.'}
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="quizAge">{am ? 'እድሜዎ ስንት ነው?' : 'How old are you?'}</Label>
+              <Input
+                id="quizAge"
+                type="number"
+                min={10}
+                max={99}
+                className="max-w-32"
+                value={answers.age}
+                onChange={e => setAnswers(a => ({ ...a, age: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>{am ? 'ፓስፖርት አለዎት?' : 'Do you have a passport?'}</Label>
+              <RadioGroup
+                value={answers.passport}
+                onValueChange={value => setAnswers(a => ({ ...a, passport: value as PassportStatus }))}
+                name="passport"
+                className="grid gap-2"
+              >
+                {([
+                  ['valid', am ? 'አዎ፣ አለኝ' : 'Yes, I have one'],
+                  ['applied', am ? 'አመልክቻለሁ' : "I've applied for one"],
+                  ['none', am ? 'የለኝም' : 'No'],
+                ] as [PassportStatus, string][]).map(([value, label]) => (
+                  <div key={value} className="flex items-center space-x-2">
+                    <RadioGroupItem value={value} id={`passport-${value}`} />
+                    <Label htmlFor={`passport-${value}`} className="cursor-pointer font-normal">{label}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              {answers.passport === 'valid' && (
+                <div className="space-y-2">
+                  <Label htmlFor="passportExpiry">{am ? 'የሚያበቃበት ወር' : 'Expiry month'}</Label>
+                  <Input
+                    id="passportExpiry"
+                    type="month"
+                    className="max-w-48"
+                    value={answers.passportExpiry}
+                    onChange={e => setAnswers(a => ({ ...a, passportExpiry: e.target.value }))}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <Label>{am ? 'የትኞቹን ቋንቋዎች ይናገራሉ?' : 'Which languages do you speak?'}</Label>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {QUIZ_LANGUAGES.map(language => (
+                  <div key={language.name} className="flex items-center gap-2">
+                    <span className="w-24 text-sm">{language.label[currentLanguage]}</span>
+                    <Select
+                      value={answers.languages[language.name]}
+                      onValueChange={value =>
+                        setAnswers(a => ({ ...a, languages: { ...a.languages, [language.name]: value as LanguageLevel } }))
+                      }
+                    >
+                      <SelectTrigger className="flex-1" aria-label={language.label.en}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">{am ? 'አልናገርም' : 'None'}</SelectItem>
+                        {(Object.keys(PROFICIENCY_LABELS) as (keyof typeof PROFICIENCY_LABELS)[]).map(level => (
+                          <SelectItem key={level} value={level}>
+                            {PROFICIENCY_LABELS[level][currentLanguage]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <FieldError message={answerError ?? undefined} />
+
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <Button type="button" onClick={evaluate}>
+                {results ? <RotateCcw className="mr-2 h-4 w-4" /> : null}
+                {results ? (am ? 'እንደገና አረጋግጥ' : 'Check Again') : am ? 'ብቁነቴን አረጋግጥ' : 'Check My Eligibility'}
+              </Button>
+              <Link to="/apply" className="text-sm text-muted-foreground hover:underline">
+                {am ? 'ዝለል እና በቀጥታ አመልክት' : 'Skip and apply directly'}
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+
+        {results && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{am ? 'ውጤቶችዎ' : 'Your Results'}</CardTitle>
+              <CardDescription>
+                {am
+                  ? `ማመልከት የሚፈልጉባቸውን እስከ ${MAX_PREFERRED_COUNTRIES} አገሮች ይምረጡ። ይህ መመሪያ ብቻ ነው፤ አማካሪዎቻችን ያረጋግጣሉ።`
+                  : `Pick up to ${MAX_PREFERRED_COUNTRIES} destinations to apply for. This is guidance only; our consultants confirm every case.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid gap-3">
+                {results.map(result => {
+                  const badge = STATUS_BADGES[result.status]
+                  const rank = selected.indexOf(result.country)
+                  const disabled = result.status === 'ineligible' || (rank === -1 && selected.length >= MAX_PREFERRED_COUNTRIES)
+                  return (
+                    <button
+                      key={result.country}
+                      type="button"
+                      onClick={() => toggleCountry(result.country)}
+                      disabled={disabled}
+                      aria-pressed={rank !== -1}
+                      className={cn(
+                        'rounded-md border p-4 text-left transition-colors disabled:cursor-not-allowed',
+                        rank !== -1 ? 'border-primary bg-primary/5' : 'hover:bg-accent',
+                        result.status === 'ineligible' && 'opacity-60'
+                      )}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-xl">{getCountryFlag(result.country)}</span>
+                        <span className="flex-1 font-medium">{countryName(result.country)}</span>
+                        <Badge variant={badge.variant}>{badge[currentLanguage]}</Badge>
+                        {rank !== -1 && (
+                          <span className="flex h-5 w-5 items-center justify-center rounded-full bg-primary text-xs text-primary-foreground">
+                            {rank + 1}
+                          </span>
+                        )}
+                      </div>
+                      {result.reasons.length > 0 && (
+                        <ul className="mt-2 list-disc space-y-1 pl-8 text-sm text-muted-foreground">
+                          {result.reasons.map(reason => (
+                            <li key={reason.en}>{reason[currentLanguage]}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </button>
+                  )
+                })}
+              </div>
+
+              {selected.map(country => (
+                <DesiredJobsPicker
+                  key={country}
+                  country={country}
+                  countryName={countryName(country)}
+                  jobs={jobsFor(country)}
+                  value={desiredJobs.filter(job => job.country === country)}
+                  onChange={jobs => setDesiredJobs(list => [...list.filter(job => job.country !== country), ...jobs])}
+                />
+              ))}
+
+              <Button type="button" className="w-full" onClick={continueToApplication} disabled={selected.length === 0}>
+                {am ? 'ወደ ማመልከቻው ቀጥል' : 'Continue to Application'}
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+import type { LanguageProficiency } from '../../services/api'
+import type { ApplicationData } from '../apply/MultiStepForm'
+import type { Language } from '@/content/LanguageContext'
+
+/**
+ * Rough per-destination requirements for the pre-application check. These are
+ * guidance for applicants, not a visa decision; consultants confirm each case.
+ */
+
+type Message = Record<Language, string>
+
+export type LanguageLevel = LanguageProficiency | 'none'
+export type PassportStatus = 'valid' | 'applied' | 'none'
+
+const LEVEL_ORDER: LanguageLevel[] = ['none', 'basic', 'conversational', 'fluent', 'native']
+
+export const QUIZ_LANGUAGES: { name: string; label: Message }[] = [
+  { name: 'English', label: { en: 'English', am: 'እንግሊዝኛ' } },
+  { name: 'German', label: { en: 'German', am: 'ጀርመንኛ' } },
+  { name: 'French', label: { en: 'French', am: 'ፈረንሳይኛ' } },
+  { name: 'Spanish', label: { en: 'Spanish', am: 'ስፓኒሽ' } },
+  { name: 'Italian', label: { en: 'Italian', am: 'ጣሊያንኛ' } },
+]
+
+interface LanguageRequirement {
+  /** Any one of these is enough */
+  languages: string[]
+  minimum: LanguageProficiency
+  /** Unmet required languages rule a destination out; recommended ones only warn */
+  required: boolean
+}
+
+export interface EligibilityRule {
+  minAge: number
+  maxAge: number
+  /** How long the passport must still be valid, from today */
+  passportMonths: number
+  languages: LanguageRequirement[]
+}
+
+// Destinations without their own entry (new ones added on the backend) get this
+const DEFAULT_RULE: EligibilityRule = { minAge: 18, maxAge: 55, passportMonths: 12, languages: [] }
+
+export const ELIGIBILITY_RULES: Record<string, EligibilityRule> = {
+  'Poland': {
+    minAge: 18,
+    maxAge: 50,
+    passportMonths: 15,
+    languages: [{ languages: ['English'], minimum: 'basic', required: false }],
+  },
+  'Germany': {
+    minAge: 18,
+    maxAge: 45,
+    passportMonths: 18,
+    languages: [{ languages: ['German'], minimum: 'basic', required: true }],
+  },
+  'Netherlands': {
+    minAge: 18,
+    maxAge: 45,
+    passportMonths: 15,
+    languages: [{ languages: ['English'], minimum: 'basic', required: true }],
+  },
+  'Spain': {
+    minAge: 18,
+    maxAge: 55,
+    passportMonths: 12,
+    languages: [{ languages: ['Spanish', 'English'], minimum: 'basic', required: false }],
+  },
+  'Italy': {
+    minAge: 18,
+    maxAge: 55,
+    passportMonths: 12,
+    languages: [{ languages: ['Italian', 'English'], minimum: 'basic', required: false }],
+  },
+  'Luxembourg': {
+    minAge: 18,
+    maxAge: 45,
+    passportMonths: 15,
+    languages: [{ languages: ['French', 'German'], minimum: 'basic', required: true }],
+  },
+}
+
+export interface EligibilityAnswers {
+  age: string
+  passport: PassportStatus
+  /** YYYY-MM, when passport is 'valid' */
+  passportExpiry: string
+  /** Level per QUIZ_LANGUAGES name */
+  languages: Record<string, LanguageLevel>
+}
+
+export type EligibilityStatus = 'eligible' | 'conditional' | 'ineligible'
+
+export interface EligibilityResult {
+  country: string
+  status: EligibilityStatus
+  /** Share of checks passed, 0 to 100, for ordering */
+  score: number
+  reasons: Message[]
+}
+
+/** What a quiz result hands over to the application form */
+export type EligibilityPrefill = Pick<ApplicationData, 'age' | 'preferred_countries' | 'desired_jobs'>
+
+const levelAtLeast = (level: LanguageLevel | undefined, minimum: LanguageProficiency) =>
+  LEVEL_ORDER.indexOf(level ?? 'none') >= LEVEL_ORDER.indexOf(minimum)
+
+const monthsUntil = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number)
+  const now = new Date()
+  return year * 12 + monthNumber - (now.getFullYear() * 12 + now.getMonth() + 1)
+}
+
+const languageNames = (names: string[], lang: Language) =>
+  names
+    .map(name => QUIZ_LANGUAGES.find(l => l.name === name)?.label[lang] ?? name)
+    .join(lang === 'am' ? ' ወይም ' : ' or ')
+
+export function evaluateCountry(country: string, answers: EligibilityAnswers): EligibilityResult {
+  const rule = ELIGIBILITY_RULES[country] ?? DEFAULT_RULE
+  const reasons: Message[] = []
+  let status: EligibilityStatus = 'eligible'
+  let passed = 0
+  let checks = 0
+  const fail = (severity: Exclude<EligibilityStatus, 'eligible'>, reason: Message) => {
+    reasons.push(reason)
+    if (severity === 'ineligible' || status === 'eligible') status = severity
+  }
+
+  checks++
+  const age = Number(answers.age)
+  if (age >= rule.minAge && age <= rule.maxAge) passed++
+  else
+    fail('ineligible', {
+      en: `Applicants must be ${rule.minAge}–${rule.maxAge} years old`,
+      am: `አመልካቾች ከ${rule.minAge}–${rule.maxAge} ዓመት መሆን አለባቸው`,
+    })
+
+  checks++
+  if (answers.passport === 'valid' && answers.passportExpiry && monthsUntil(answers.passportExpiry) >= rule.passportMonths) {
+    passed++
+  } else if (answers.passport === 'valid') {
+    fail('conditional', {
+      en: `Your passport should be valid for at least ${rule.passportMonths} more months; plan to renew it`,
+      am: `ፓስፖርትዎ ቢያንስ ለ${rule.passportMonths} ወራት የሚያገለግል መሆን አለበት፤ ለማደስ ያቅዱ`,
+    })
+  } else {
+    fail('conditional', {
+      en: `You will need a passport valid for at least ${rule.passportMonths} months`,
+      am: `ቢያንስ ለ${rule.passportMonths} ወራት የሚያገለግል ፓስፖርት ያስፈልግዎታል`,
+    })
+  }
+
+  for (const requirement of rule.languages) {
+    checks++
+    if (requirement.languages.some(name => levelAtLeast(answers.languages[name], requirement.minimum))) {
+      passed++
+      continue
+    }
+    const en = languageNames(requirement.languages, 'en')
+    const am = languageNames(requirement.languages, 'am')
+    fail(
+      requirement.required ? 'ineligible' : 'conditional',
+      requirement.required
+        ? { en: `Employers require at least basic ${en}`, am: `አሰሪዎች ቢያንስ መሰረታዊ ${am} ይጠይቃሉ` }
+        : { en: `Basic ${en} will make finding work much easier`, am: `መሰረታዊ ${am} ስራ ማግኘትን በጣም ያቀልልዎታል` }
+    )
+  }
+
+  return { country, status, score: Math.round((passed / checks) * 100), reasons }
+}
+
+const STATUS_ORDER: EligibilityStatus[] = ['eligible', 'conditional', 'ineligible']
+
+/** Results for every destination, best fit first */
+export function evaluateEligibility(countries: string[], answers: EligibilityAnswers): EligibilityResult[] {
+  return countries
+    .map(country => evaluateCountry(country, answers))
+    .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || b.score - a.score)
+}
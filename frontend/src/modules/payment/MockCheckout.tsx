@@ -0,0 +1,52 @@
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import type { ReturnOutcome } from './providers'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CheckCircle, FlaskConical, XCircle, Ban } from 'lucide-react'
+
+/**
+ * Local stand-in for a hosted checkout page, used by the mock payment provider
+ */
+export default function MockCheckout() {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const txRef = searchParams.get('tx_ref') || ''
+
+  const finish = (status: Exclude<ReturnOutcome, 'unknown'>) => {
+    const params = new URLSearchParams({ provider: 'mock', tx_ref: txRef, status })
+    navigate(`/payment/success?${params}`, { replace: true })
+  }
+
+  return (
+    <div className="bg-gradient-to-br from-slate-50 to-slate-200 min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
+      <Card className="max-w-md w-full">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4">
+            <FlaskConical className="h-12 w-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">Test Checkout</CardTitle>
+          <CardDescription>Choose how this simulated payment should end.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Alert>
+            <AlertDescription>No real payment provider is contacted and no money is charged.</AlertDescription>
+          </Alert>
+          <p className="text-xs text-muted-foreground font-mono break-all text-center">Ref: {txRef}</p>
+          <Button className="w-full" onClick={() => finish('success')}>
+            <CheckCircle className="mr-2 h-4 w-4" />
+            Simulate Success
+          </Button>
+          <Button variant="destructive" className="w-full" onClick={() => finish('failed')}>
+            <XCircle className="mr-2 h-4 w-4" />
+            Simulate Failure
+          </Button>
+          <Button variant="outline" className="w-full" onClick={() => finish('cancelled')}>
+            <Ban className="mr-2 h-4 w-4" />
+            Cancel Payment
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
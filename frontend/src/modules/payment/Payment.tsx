@@ -1,82 +1,146 @@
-import { useState, useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { useLocation } from 'react-router-dom'
-import { initiatePayment, fetchUserDashboard } from '../../services/api'
+import { fetchPaymentPlans, validatePromoCode } from '../../services/api'
+import type { PaymentPlan, PromoCodeValidation } from '../../services/api'
 import { useAuth } from '../auth/AuthContext'
-import { getAccessToken } from '../../services/auth'
+import { useSubscription } from '../subscription/SubscriptionContext'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { CheckCircle, CreditCard, Shield, Loader2 } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Input } from '@/components/ui/input'
+import { CheckCircle, CreditCard, Shield, Loader2, Tag, X } from 'lucide-react'
+import { formatEndDate } from '@/lib/subscription'
+import { formatCurrency, formatMonths } from '@/lib/format'
+import { getReferralCode, normalizeReferralCode } from '@/lib/referral'
+import { applyPromo } from './promo'
+import PlanSelector from './PlanSelector'
+import { savePendingPayment } from './pendingPayment'
+import { defaultPaymentProvider, getPaymentProvider, paymentProviders } from './providers'
+
+type PaymentLocationState = {
+  draftId?: string
+  email?: string
+  name?: string
+  needsPayment?: boolean
+  /** Carried over from the /apply flow */
+  referralCode?: string
+  /** Set by the Dashboard's "Renew now" action */
+  renewal?: boolean
+}
 
 export default function Payment() {
-  const location = useLocation() as any
-  const { user } = useAuth()
-  const { draftId: stateDraftId, email: stateEmail, needsPayment } = (location.state || {}) as { 
-    draftId?: string; 
-    email?: string; 
-    name?: string;
-    needsPayment?: boolean;
-  }
+  const location = useLocation()
+  const { token, user } = useAuth()
+  const { draftId: stateDraftId, email: stateEmail, needsPayment, renewal, referralCode } = (location.state || {}) as PaymentLocationState
   
-  const [draftId, setDraftId] = useState<string | null>(stateDraftId || null)
-  const [email, setEmail] = useState<string>(stateEmail || user?.email || '')
-  const [isLoadingDraft, setIsLoadingDraft] = useState(false)
-
-  // Update email if user is logged in
-  useEffect(() => {
-    if (user?.email && !stateEmail) {
-      setEmail(user.email)
-    }
-  }, [user, stateEmail])
+  const subscription = useSubscription()
+  // A logged-in user who was sent here by UserGuard has their draft on the dashboard
+  const draftId = stateDraftId || subscription.draftId
+  const email = stateEmail || subscription.dashboard?.email || user?.email || ''
+  // Renewing an existing (or expired) subscription doesn't need an application draft
+  const isRenewal = !!renewal || subscription.isExpired
+  const isLoadingDraft = !stateDraftId && !renewal && !!token && subscription.loading
 
+  const [providerId, setProviderId] = useState<string>(defaultPaymentProvider.id)
+  const provider = getPaymentProvider(providerId)
+  const [plans, setPlans] = useState<PaymentPlan[]>([])
+  const [plansLoading, setPlansLoading] = useState(true)
+  const [plansError, setPlansError] = useState<string | null>(null)
+  const [planId, setPlanId] = useState<number | null>(null)
+  const plan = plans.find(p => p.id === planId) ?? null
+  const [promoInput, setPromoInput] = useState(() => referralCode || getReferralCode() || '')
+  // The code being applied; a pre-filled referral code is applied straight away
+  const [promoCode, setPromoCode] = useState<string | null>(() => referralCode || getReferralCode())
+  const [promo, setPromo] = useState<PromoCodeValidation | null>(null)
+  const [promoError, setPromoError] = useState<string | null>(null)
+  const [validatingPromo, setValidatingPromo] = useState(false)
+  const total = plan ? applyPromo(plan.price, promo) : null
   const [isPaying, setIsPaying] = useState(false)
   const [paymentError, setPaymentError] = useState<string | null>(null)
 
-  // If user is logged in but needs payment, try to get draft_id from dashboard
   useEffect(() => {
-    const fetchDraftId = async () => {
-      const token = getAccessToken()
-      if (needsPayment && token && !draftId) {
-        setIsLoadingDraft(true)
-        try {
-          const dashboardRes = await fetchUserDashboard()
-          if (dashboardRes.ok && dashboardRes.draft_id) {
-            setDraftId(dashboardRes.draft_id)
-          }
-          if (dashboardRes.ok && dashboardRes.email) {
-            setEmail(dashboardRes.email)
-          }
-        } catch (error) {
-          console.error('Error fetching draft ID:', error)
-        } finally {
-          setIsLoadingDraft(false)
-        }
+    let cancelled = false
+    fetchPaymentPlans().then(res => {
+      if (cancelled) return
+      if (res.ok && res.data.length > 0) {
+        const sorted = [...res.data].sort((a, b) => a.duration_months - b.duration_months)
+        setPlans(sorted)
+        setPlanId((sorted.find(p => p.is_popular) ?? sorted[0]).id)
+      } else {
+        // Still let the user pay; the backend charges its default term without a plan_id
+        setPlansError(res.ok ? null : res.error.message)
+      }
+      setPlansLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Discounts can depend on the plan, so re-validate whenever it changes
+  useEffect(() => {
+    if (!promoCode || plansLoading) return
+    let cancelled = false
+    setValidatingPromo(true)
+    validatePromoCode({ code: promoCode, plan_id: planId ?? undefined }).then(res => {
+      if (cancelled) return
+      if (res.ok && res.data.valid) {
+        setPromo(res.data)
+        setPromoError(null)
+      } else {
+        setPromo(null)
+        setPromoError(res.ok ? res.data.message || 'This code is not valid.' : res.error.message)
       }
+      setValidatingPromo(false)
+    })
+    return () => {
+      cancelled = true
     }
-    fetchDraftId()
-  }, [needsPayment, draftId])
+  }, [promoCode, planId, plansLoading])
+
+  const applyPromoCode = () => {
+    const code = normalizeReferralCode(promoInput)
+    if (code) setPromoCode(code)
+  }
+
+  const removePromoCode = () => {
+    setPromoCode(null)
+    setPromo(null)
+    setPromoError(null)
+    setPromoInput('')
+  }
 
   const pay = async () => {
     setIsPaying(true)
     setPaymentError(null)
     try {
-      console.log('Initiating payment with:', { draft_id: draftId, email })
-      const res = await initiatePayment({ draft_id: draftId, email })
-      console.log('Payment response:', res)
-      
-      // Handle Chapa response structure
-      if (res.status === 'success' && res.checkout_url) {
-        window.location.href = res.checkout_url
-      } else if (res.ok && res.checkout_url) {
-        window.location.href = res.checkout_url
-      } else {
-        // Show detailed error information
-        const errorMsg = res.message || res.error || res.detail || `No checkout URL provided. Response: ${JSON.stringify(res)}`
-        throw new Error(errorMsg)
+      const res = await provider.initiate({
+        draftId: isRenewal ? null : draftId,
+        email,
+        renewal: isRenewal,
+        planId: plan?.id,
+        promoCode: promo?.valid ? promo.code : undefined,
+      })
+      if (!res.ok) {
+        throw new Error(res.error.message)
       }
-    } catch (err: any) {
+      // Remember the checkout so PaymentSuccess can resume verification if the return URL loses the reference
+      savePendingPayment({
+        provider: provider.id,
+        txRef: res.data.txRef,
+        draftId: isRenewal ? null : draftId,
+        email,
+        renewal: isRenewal,
+        plan: plan
+          ? { name: plan.name, months: plan.duration_months, amount: total ?? plan.price, currency: plan.currency }
+          : undefined,
+      })
+      window.location.href = res.data.redirectUrl
+    } catch (err) {
       console.error('Payment error:', err)
-      setPaymentError(err.message || 'An unexpected payment error occurred.')
+      setPaymentError(err instanceof Error ? err.message : 'An unexpected payment error occurred.')
     } finally {
       setIsPaying(false)
     }
@@ -100,7 +164,7 @@ export default function Payment() {
     )
   }
 
-  if (!draftId) {
+  if (!draftId && !isRenewal) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
         <Card className="max-w-md">
@@ -127,10 +191,16 @@ export default function Payment() {
       <div className="container mx-auto px-4 max-w-2xl">
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-900 mb-4">
-            Complete Your Application
+            {subscription.isExpired
+              ? 'Your Subscription Has Expired'
+              : isRenewal ? 'Renew Your Subscription' : 'Complete Your Application'}
           </h1>
           <p className="text-lg text-muted-foreground">
-            You're just one step away from accessing your personalized job dashboard!
+            {subscription.isExpired
+              ? `Your access ended${subscription.endDate ? ` on ${formatEndDate(subscription.endDate)}` : ''}. Renew to get back to your personalized job dashboard.`
+              : isRenewal
+                ? 'Extend your access to curated job opportunities for another term.'
+                : "You're just one step away from accessing your personalized job dashboard!"}
           </p>
         </div>
 
@@ -153,6 +223,60 @@ export default function Payment() {
                 </Alert>
               )}
 
+              {/* Plans */}
+              <div className="space-y-3">
+                <Label className="text-base font-semibold">Choose Your Plan</Label>
+                {plansLoading ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading plans...
+                  </div>
+                ) : plans.length > 0 ? (
+                  <PlanSelector plans={plans} value={planId} onChange={setPlanId} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {plansError
+                      ? 'Plans could not be loaded. You will be charged for the standard monthly subscription.'
+                      : 'You will be charged for the standard monthly subscription.'}
+                  </p>
+                )}
+              </div>
+
+              {/* Promo Code */}
+              <div className="space-y-2">
+                <Label htmlFor="promoCode" className="text-base font-semibold">Promo or Referral Code</Label>
+                {promo?.valid ? (
+                  <div className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 p-3 text-sm">
+                    <span className="flex items-center gap-2 text-green-800">
+                      <Tag className="h-4 w-4" />
+                      <span className="font-mono font-semibold">{promo.code}</span>
+                      {promo.message && <span>· {promo.message}</span>}
+                    </span>
+                    <Button type="button" variant="ghost" size="sm" onClick={removePromoCode} aria-label="Remove code">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      id="promoCode"
+                      value={promoInput}
+                      onChange={e => setPromoInput(e.target.value)}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') applyPromoCode()
+                      }}
+                      placeholder="Enter code"
+                      className="font-mono uppercase"
+                      disabled={validatingPromo}
+                    />
+                    <Button type="button" variant="outline" onClick={applyPromoCode} disabled={validatingPromo || !promoInput.trim()}>
+                      {validatingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+                    </Button>
+                  </div>
+                )}
+                {promoError && <p className="text-sm text-destructive">{promoError}</p>}
+              </div>
+
               {/* Features List */}
               <div className="space-y-3">
                 <div className="flex items-center gap-3">
@@ -169,14 +293,63 @@ export default function Payment() {
                 </div>
                 <div className="flex items-center gap-3">
                   <CheckCircle className="h-5 w-5 text-green-600" />
-                  <span>Lifetime access to resources</span>
+                  <span>Full access for your entire plan period</span>
                 </div>
               </div>
 
+              {/* Payment Method */}
+              <div className="border-t pt-6 space-y-3">
+                <Label className="text-base font-semibold">Payment Method</Label>
+                <RadioGroup value={providerId} onValueChange={setProviderId} name="provider">
+                  {paymentProviders.map(option => (
+                    <Label
+                      key={option.id}
+                      htmlFor={`provider-${option.id}`}
+                      className="flex items-start gap-3 rounded-md border p-4 cursor-pointer has-[:checked]:border-primary has-[:checked]:bg-primary/5"
+                    >
+                      <RadioGroupItem value={option.id} id={`provider-${option.id}`} className="mt-0.5" />
+                      <span className="space-y-1">
+                        <span className="block font-medium">{option.label}</span>
+                        <span className="block text-sm font-normal text-muted-foreground">{option.description}</span>
+                      </span>
+                    </Label>
+                  ))}
+                </RadioGroup>
+              </div>
+
+              {/* Order Summary */}
+              {plan && (
+                <div className="border-t pt-6 space-y-2">
+                  <Label className="text-base font-semibold">Order Summary</Label>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {isRenewal ? 'Subscription renewal' : 'Job dashboard subscription'} ({plan.name || formatMonths(plan.duration_months)})
+                    </span>
+                    <span>{formatCurrency(plan.price, plan.currency)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Access period</span>
+                    <span>{formatMonths(plan.duration_months)}</span>
+                  </div>
+                  {total !== null && total !== plan.price && (
+                    <div className="flex justify-between text-sm text-green-700">
+                      <span>Discount ({promo?.code})</span>
+                      <span>
+                        -{formatCurrency(Number.parseFloat(plan.price) - Number.parseFloat(total), plan.currency)}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-semibold text-lg pt-2 border-t">
+                    <span>Total</span>
+                    <span>{formatCurrency(total ?? plan.price, plan.currency)}</span>
+                  </div>
+                </div>
+              )}
+
               <div className="border-t pt-6">
                 <Button 
                   onClick={pay} 
-                  disabled={isPaying}
+                  disabled={isPaying || plansLoading || validatingPromo}
                   size="lg"
                   className="w-full text-lg py-6"
                 >
@@ -188,7 +361,9 @@ export default function Payment() {
                   ) : (
                     <>
                       <CreditCard className="mr-2 h-5 w-5" />
-                      Complete Payment
+                      {plan
+                        ? `Pay ${formatCurrency(total ?? plan.price, plan.currency)}`
+                        : isRenewal ? 'Renew Subscription' : 'Complete Payment'}
                     </>
                   )}
                 </Button>
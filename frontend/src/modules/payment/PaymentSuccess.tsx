@@ -1,332 +1,248 @@
-import React, { useEffect, useState } from 'react'
-import { useLocation, useNavigate } from 'react-router-dom'
-import { confirmPaymentAndLogin } from '../../services/api'
-import { login, getAccessToken } from '../../services/auth'
+import React, { useEffect, useReducer, useState } from 'react'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import { getSnapshot } from '../../services/auth'
 import { useAuth } from '../auth/AuthContext'
+import { useSubscription } from '../subscription/SubscriptionContext'
+import { clearPendingPayment, loadPendingPayment, savePendingPayment } from './pendingPayment'
+import { clearReferralCode } from '@/lib/referral'
+import { getPaymentProvider } from './providers'
+import type { ReturnOutcome } from './providers'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { CheckCircle, Loader2, Lock } from 'lucide-react'
+import { formatCurrency, formatMonths } from '@/lib/format'
+import { AlertTriangle, CheckCircle, Loader2, Lock, RefreshCw } from 'lucide-react'
+
+type SuccessLocationState = {
+  draftId?: string
+  paymentRef?: string
+  tx_ref?: string
+  txRef?: string
+}
+
+/**
+ * awaiting-ref → confirming → polling-subscription → success
+ *                          ↘ needs-login / failed ↙
+ * Every phase can be re-entered after a reload because the reference is
+ * re-read from the URL or from the pending payment in sessionStorage.
+ */
+type VerificationState =
+  | { phase: 'awaiting-ref' }
+  | { phase: 'confirming'; txRef: string }
+  | { phase: 'polling-subscription'; txRef: string | null }
+  | { phase: 'success'; simulated: boolean }
+  | { phase: 'needs-login'; txRef: string | null; message: string }
+  | { phase: 'failed'; txRef: string | null; message: string; retryable: boolean }
+
+type VerificationAction =
+  | { type: 'ref-resolved'; txRef: string | null; outcome: ReturnOutcome; loggedIn: boolean }
+  | { type: 'confirmed'; simulated: boolean }
+  | { type: 'confirm-failed'; message: string; loggedIn: boolean }
+  | { type: 'activated' }
+  | { type: 'not-activated'; loggedIn: boolean }
+  | { type: 'logged-in' }
+  | { type: 'retry' }
+
+const NO_REF_MESSAGE =
+  'Payment reference not found. If you completed payment, please log in - your subscription will be activated automatically.'
+const OUTCOME_MESSAGES: Partial<Record<ReturnOutcome, string>> = {
+  failed: 'The payment was declined by the payment provider. No money was taken.',
+  cancelled: 'The payment was cancelled before it was completed.',
+}
+const NOT_ACTIVE_MESSAGE =
+  'Your payment was received but your subscription is not active yet. This can take a few minutes.'
+
+function currentRef(state: VerificationState): string | null {
+  return 'txRef' in state ? state.txRef : null
+}
+
+function verificationReducer(state: VerificationState, action: VerificationAction): VerificationState {
+  switch (action.type) {
+    case 'ref-resolved':
+      if (state.phase !== 'awaiting-ref') return state
+      // The gateway already told us it didn't go through; confirming would only say the same
+      if (action.outcome === 'failed' || action.outcome === 'cancelled') {
+        return { phase: 'failed', txRef: action.txRef, message: OUTCOME_MESSAGES[action.outcome]!, retryable: false }
+      }
+      if (action.txRef) return { phase: 'confirming', txRef: action.txRef }
+      // Without a reference we can only check whether the subscription is already active
+      return action.loggedIn
+        ? { phase: 'polling-subscription', txRef: null }
+        : { phase: 'needs-login', txRef: null, message: NO_REF_MESSAGE }
+    case 'confirmed':
+      if (state.phase !== 'confirming') return state
+      return action.simulated ? { phase: 'success', simulated: true } : { phase: 'polling-subscription', txRef: state.txRef }
+    case 'confirm-failed':
+      if (state.phase !== 'confirming') return state
+      // A logged-in user can't be helped by logging in again, so the confirmation itself failed
+      return action.loggedIn
+        ? { phase: 'failed', txRef: state.txRef, message: action.message, retryable: true }
+        : { phase: 'needs-login', txRef: state.txRef, message: action.message }
+    case 'activated':
+      return state.phase === 'polling-subscription' ? { phase: 'success', simulated: false } : state
+    case 'not-activated':
+      if (state.phase !== 'polling-subscription') return state
+      return action.loggedIn
+        ? { phase: 'failed', txRef: state.txRef, message: NOT_ACTIVE_MESSAGE, retryable: true }
+        : { phase: 'needs-login', txRef: state.txRef, message: NO_REF_MESSAGE }
+    case 'logged-in':
+      if (state.phase !== 'needs-login') return state
+      // Confirming again now that we are authenticated links the payment to this account
+      return state.txRef ? { phase: 'confirming', txRef: state.txRef } : { phase: 'polling-subscription', txRef: null }
+    case 'retry': {
+      if (state.phase !== 'failed' || !state.retryable) return state
+      const txRef = currentRef(state)
+      return txRef ? { phase: 'confirming', txRef } : { phase: 'polling-subscription', txRef: null }
+    }
+  }
+}
 
 export default function PaymentSuccess() {
   const navigate = useNavigate()
   const location = useLocation()
-  const { state } = location as any
-  const { setToken, setUser } = useAuth()
-  
-  const [autoLoginAttempted, setAutoLoginAttempted] = useState(false)
-  const [autoLoginSuccess, setAutoLoginSuccess] = useState(false)
-  const [showPasswordLogin, setShowPasswordLogin] = useState(false)
-  const [password, setPassword] = useState('')
-  const [email, setEmail] = useState('')
-  const [error, setError] = useState<string | null>(null)
-  const [loading, setLoading] = useState(false)
+  const locationState = location.state as SuccessLocationState | null
+  const { user, login, applyTokens } = useAuth()
+  const { pollUntilActive } = useSubscription()
 
-  // Don't auto-redirect if logged in - we still need to confirm payment
-  // The payment confirmation will update the subscription status
+  const [state, dispatch] = useReducer(verificationReducer, { phase: 'awaiting-ref' })
+  const [pending] = useState(loadPendingPayment)
+  // The return URL names the provider for simulated checkouts; real gateways are known from the pending checkout
+  const [provider] = useState(() =>
+    getPaymentProvider(new URLSearchParams(location.search).get('provider') || pending?.provider)
+  )
+  const [email, setEmail] = useState(() => pending?.email || user?.email || '')
+  const [password, setPassword] = useState('')
+  const [loginError, setLoginError] = useState<string | null>(null)
+  const [loggingIn, setLoggingIn] = useState(false)
 
-  // Extract tx_ref from URL params or state
-  // Chapa might send it as 'tx_ref', 'txRef', or in the URL hash
-  const searchParams = new URLSearchParams(location.search)
-  const hashParams = new URLSearchParams(location.hash.replace('#', ''))
-  const txRef = searchParams.get('tx_ref') || 
-                searchParams.get('txRef') || 
-                hashParams.get('tx_ref') ||
-                hashParams.get('txRef') ||
-                state?.paymentRef || 
-                state?.tx_ref ||
-                state?.txRef
-  const draftId = state?.draftId
+  const draftId = locationState?.draftId || pending?.draftId || undefined
 
-  // First useEffect: Handle payment confirmation
+  // awaiting-ref: the URL wins over router state, which wins over the stored checkout
   useEffect(() => {
-    // Always confirm payment first, even if user is already logged in
-    // This ensures subscription status is updated
-    
-    if (!txRef || autoLoginAttempted) return
-
-    const confirmPayment = async () => {
-      setAutoLoginAttempted(true)
-      setLoading(true)
-      setError(null)
-
-      console.log('Confirming payment with tx_ref:', txRef)
+    if (state.phase !== 'awaiting-ref') return
+    const { txRef: returnedRef, outcome } = provider.parseReturnUrl(location)
+    const txRef =
+      returnedRef ||
+      locationState?.paymentRef ||
+      locationState?.tx_ref ||
+      locationState?.txRef ||
+      pending?.txRef ||
+      null
+    if (txRef && txRef !== pending?.txRef) {
+      savePendingPayment({ ...pending, provider: provider.id, txRef, draftId })
+    }
+    dispatch({ type: 'ref-resolved', txRef, outcome, loggedIn: !!getSnapshot().token })
+  }, [state.phase, location, locationState, pending, provider, draftId])
 
-      try {
-        const res = await confirmPaymentAndLogin({ 
-          payment_ref: txRef, 
-          tx_ref: txRef,
-          draft_id: draftId 
+  // confirming: confirmation is idempotent on the backend, so re-running it after a reload is safe
+  useEffect(() => {
+    if (state.phase !== 'confirming') return
+    let cancelled = false
+    provider.confirm(state.txRef, draftId).then(res => {
+      if (cancelled) return
+      if (res.ok) {
+        applyTokens(res.data)
+        dispatch({ type: 'confirmed', simulated: !!provider.simulated })
+      } else {
+        dispatch({
+          type: 'confirm-failed',
+          message: res.error.message || 'We could not confirm your payment automatically. Please log in with your password.',
+          loggedIn: !!getSnapshot().token,
         })
-        
-        console.log('Payment confirmation response:', res)
-        
-        if (res.ok) {
-          // Payment confirmed - subscription should now be updated
-          // Update token if new one provided, otherwise keep existing
-          if (res.access || res.token) {
-            const newToken = res.access || res.token
-            localStorage.setItem('auth_access_token', newToken)
-            if (res.refresh) {
-              localStorage.setItem('auth_refresh_token', res.refresh)
-            }
-            setToken(newToken)
-          }
-          
-          // Update user info if provided
-          if (res.user) {
-            setUser({ 
-              name: res.user?.name || `${res.user?.first_name || ''} ${res.user?.last_name || ''}`.trim() || res.user?.username,
-              email: res.user?.email 
-            })
-          }
-          
-          setAutoLoginSuccess(true)
-          
-          // Verify subscription is active before redirecting
-          const verifySubscription = async (retries = 8) => {
-            try {
-              const { fetchUserDashboard } = await import('../../services/api')
-              const dashboardRes = await fetchUserDashboard()
-              
-              console.log('PaymentSuccess - Verifying subscription:', {
-                ok: dashboardRes.ok,
-                subscription_status: dashboardRes.subscription_status,
-                subscription_end_date: dashboardRes.subscription_end_date,
-                retriesLeft: retries
-              })
-              
-              if (dashboardRes.ok) {
-                const subscriptionStatus = dashboardRes.subscription_status
-                const subscriptionEndDate = dashboardRes.subscription_end_date
-                
-                let hasActive = subscriptionStatus === 'active'
-                if (hasActive && subscriptionEndDate) {
-                  const endDate = new Date(subscriptionEndDate)
-                  const today = new Date()
-                  today.setHours(0, 0, 0, 0)
-                  hasActive = endDate >= today
-                }
-                
-                if (hasActive) {
-                  console.log('PaymentSuccess - Subscription verified as active, redirecting to dashboard')
-                  navigate('/dashboard', { replace: true })
-                  return
-                }
-              }
-              
-              // If not active and retries left, try again
-              if (retries > 0) {
-                console.log(`PaymentSuccess - Subscription not active yet (${dashboardRes.subscription_status}), retrying... (${retries} retries left)`)
-                setTimeout(() => verifySubscription(retries - 1), 1500) // Increased delay
-              } else {
-                console.warn('PaymentSuccess - Subscription not active after retries, but payment was confirmed. Redirecting to dashboard - UserGuard will handle verification.')
-                // Redirect anyway - UserGuard will verify and retry if needed
-                navigate('/dashboard', { replace: true })
-              }
-            } catch (error) {
-              console.error('PaymentSuccess - Error verifying subscription:', error)
-              if (retries > 0) {
-                setTimeout(() => verifySubscription(retries - 1), 1500)
-              } else {
-                console.warn('PaymentSuccess - Error after retries, redirecting anyway')
-                navigate('/dashboard', { replace: true })
-              }
-            }
-          }
-          
-          // Start verification after a longer delay to allow backend to process
-          setTimeout(() => {
-            verifySubscription()
-          }, 1000) // Increased initial delay
-        } else {
-          // Auto-login failed, show password login
-          console.warn('Payment confirmation failed:', res)
-          setShowPasswordLogin(true)
-          if (res.user?.email) {
-            setEmail(res.user.email)
-          } else {
-            // Try to get email from the user who made the payment
-            // This might be stored in localStorage from registration
-            const storedUser = localStorage.getItem('auth_user')
-            if (storedUser) {
-              try {
-                const user = JSON.parse(storedUser)
-                setEmail(user.email || '')
-              } catch (e) {
-                console.error('Error parsing stored user:', e)
-              }
-            }
-          }
-          setError(res.error || res.message || 'Payment confirmed but auto-login failed. Please log in with your password.')
-        }
-      } catch (err: any) {
-        console.error('Auto-login error:', err)
-        // Try to extract email from error or show login form
-        setShowPasswordLogin(true)
-        const storedUser = localStorage.getItem('auth_user')
-        if (storedUser) {
-          try {
-            const user = JSON.parse(storedUser)
-            setEmail(user.email || '')
-          } catch (e) {
-            console.error('Error parsing stored user:', e)
-          }
-        }
-        setError(err?.message || 'Please log in with your password to access your account.')
-      } finally {
-        setLoading(false)
       }
+    })
+    return () => {
+      cancelled = true
     }
+  }, [state, provider, draftId, applyTokens])
 
-    confirmPayment()
-  }, [txRef, draftId, autoLoginAttempted, setToken, setUser, navigate])
-
-  // Second useEffect: Handle case where tx_ref is missing but payment might be successful
+  // polling-subscription: the backend may activate the subscription a moment after confirmation
   useEffect(() => {
-    if (!txRef && !autoLoginAttempted && !showPasswordLogin) {
-      const timeout = setTimeout(async () => {
-        console.warn('No tx_ref found in URL, checking if user is already logged in and has active subscription')
-        setAutoLoginAttempted(true)
-        
-        // Check if user is already logged in
-        const currentToken = getAccessToken()
-        if (currentToken) {
-          try {
-            // Check if subscription is already active
-            const { fetchUserDashboard } = await import('../../services/api')
-            const dashboardRes = await fetchUserDashboard()
-            
-            if (dashboardRes.ok) {
-              const subscriptionStatus = dashboardRes.subscription_status
-              const subscriptionEndDate = dashboardRes.subscription_end_date
-              
-              let hasActive = subscriptionStatus === 'active'
-              if (hasActive && subscriptionEndDate) {
-                const endDate = new Date(subscriptionEndDate)
-                const today = new Date()
-                today.setHours(0, 0, 0, 0)
-                hasActive = endDate >= today
-              }
-              
-              if (hasActive) {
-                console.log('PaymentSuccess - Subscription already active, redirecting to dashboard')
-                navigate('/dashboard', { replace: true })
-                return
-              }
-            }
-          } catch (error) {
-            console.error('Error checking subscription:', error)
-          }
-        }
-        
-        // If no active subscription, show password login
-        setShowPasswordLogin(true)
-        setLoading(false)
-        setError('Payment reference not found. If you completed payment, please log in - your subscription will be activated automatically.')
-        
-        // Try to get email from stored user data
-        const storedUser = localStorage.getItem('auth_user')
-        if (storedUser) {
-          try {
-            const user = JSON.parse(storedUser)
-            setEmail(user.email || '')
-          } catch (e) {
-            console.error('Error parsing stored user:', e)
-          }
-        }
-      }, 3000) // Reduced timeout to 3 seconds
-      
-      return () => clearTimeout(timeout)
+    if (state.phase !== 'polling-subscription') return
+    let cancelled = false
+    pollUntilActive({ attempts: 8 }).then(active => {
+      if (cancelled) return
+      dispatch(active ? { type: 'activated' } : { type: 'not-activated', loggedIn: !!getSnapshot().token })
+    })
+    return () => {
+      cancelled = true
     }
-  }, [txRef, autoLoginAttempted, showPasswordLogin, navigate])
+  }, [state.phase, pollUntilActive])
+
+  // success: nothing left to resume
+  useEffect(() => {
+    if (state.phase !== 'success') return
+    clearPendingPayment()
+    if (!state.simulated) clearReferralCode()
+    // A simulated payment activates nothing, so the dashboard would just bounce back to /payment
+    if (state.simulated) return
+    const timeout = setTimeout(() => navigate('/dashboard', { replace: true }), 1500)
+    return () => clearTimeout(timeout)
+  }, [state, navigate])
 
   const handlePasswordLogin = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!email || !password) {
-      setError('Please enter your email and password')
+      setLoginError('Please enter your email and password')
       return
     }
 
-    setLoading(true)
-    setError(null)
-
+    setLoggingIn(true)
+    setLoginError(null)
     try {
       await login(email, password)
-      const token = getAccessToken()
-      if (token) {
-        setToken(token)
-        
-        // After login, verify subscription status (backend should auto-update if payment exists)
-        // Give backend a moment to process, then check subscription
-        setTimeout(async () => {
-          try {
-            const { fetchUserDashboard } = await import('../../services/api')
-            const dashboardRes = await fetchUserDashboard()
-            
-            if (dashboardRes.ok) {
-              const subscriptionStatus = dashboardRes.subscription_status
-              console.log('PaymentSuccess - After login, subscription status:', subscriptionStatus)
-              
-              // If subscription is active, navigate to dashboard
-              // Otherwise, UserGuard will handle redirecting to payment if needed
-              if (subscriptionStatus === 'active') {
-                navigate('/dashboard', { replace: true })
-              } else {
-                // Give backend more time to update subscription, then navigate
-                // UserGuard will retry checking subscription
-                setTimeout(() => {
-                  navigate('/dashboard', { replace: true })
-                }, 2000)
-              }
-            } else {
-              navigate('/dashboard', { replace: true })
-            }
-          } catch (error) {
-            console.error('Error checking subscription after login:', error)
-            navigate('/dashboard', { replace: true })
-          }
-        }, 1000)
-      } else {
-        throw new Error('Login failed - no token received')
-      }
-    } catch (err: any) {
-      setError(err?.message || 'Invalid email or password. Please try again.')
-      setLoading(false)
+      setPassword('')
+      dispatch({ type: 'logged-in' })
+    } catch (err) {
+      setLoginError(err instanceof Error ? err.message : 'Invalid email or password. Please try again.')
+    } finally {
+      setLoggingIn(false)
     }
   }
 
-  // Show success message while redirecting
-  if (autoLoginSuccess) {
+  if (state.phase === 'failed') {
     return (
-      <div className="bg-gradient-to-br from-green-50 to-emerald-100 min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
-        <Card className="max-w-md text-center">
+      <div className="bg-gradient-to-br from-amber-50 to-orange-100 min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
+        <Card className="max-w-md w-full text-center">
           <CardHeader>
             <div className="mx-auto mb-4">
-              <CheckCircle className="h-16 w-16 text-green-600" />
+              <AlertTriangle className="h-16 w-16 text-amber-600" />
             </div>
-            <CardTitle className="text-2xl text-green-800">
-              Payment Successful! 🎉
+            <CardTitle className="text-2xl text-amber-800">
+              {state.retryable ? "We Couldn't Verify Your Payment" : 'Payment Not Completed'}
             </CardTitle>
-            <CardDescription className="text-lg">
-              Your payment has been confirmed. Redirecting to your dashboard...
-            </CardDescription>
+            <CardDescription className="text-lg">{state.message}</CardDescription>
           </CardHeader>
-          <CardContent>
-            <div className="flex items-center justify-center gap-2 text-muted-foreground">
-              <Loader2 className="h-4 w-4 animate-spin" />
-              <span>Logging you in...</span>
-            </div>
+          <CardContent className="space-y-3">
+            {state.txRef && (
+              <p className="text-xs text-muted-foreground font-mono break-all">Ref: {state.txRef}</p>
+            )}
+            {state.retryable ? (
+              <>
+                <Button className="w-full" onClick={() => dispatch({ type: 'retry' })}>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Check Again
+                </Button>
+                <Button asChild variant="outline" className="w-full">
+                  <Link to="/account/payments">View Payment History</Link>
+                </Button>
+              </>
+            ) : (
+              <Button asChild className="w-full">
+                <Link to="/payment" state={{ draftId: pending?.draftId ?? draftId, renewal: pending?.renewal }}>
+                  Try Payment Again
+                </Link>
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
     )
   }
 
-  // Show password login form if auto-login failed
-  if (showPasswordLogin) {
+  if (state.phase === 'needs-login') {
     return (
       <div className="bg-gradient-to-br from-green-50 to-emerald-100 min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
         <Card className="max-w-md w-full">
@@ -335,19 +251,19 @@ export default function PaymentSuccess() {
               <CheckCircle className="h-16 w-16 text-green-600" />
             </div>
             <CardTitle className="text-2xl text-green-800">
-              Payment Successful! 🎉
+              Almost There!
             </CardTitle>
             <CardDescription className="text-lg">
-              Please log in with your password to access your account
+              Please log in with your password to finish activating your account
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {error && (
+            {(loginError || state.message) && (
               <Alert variant="destructive" className="mb-4">
-                <AlertDescription>{error}</AlertDescription>
+                <AlertDescription>{loginError || state.message}</AlertDescription>
               </Alert>
             )}
-            
+
             <form onSubmit={handlePasswordLogin} className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="email">Email</Label>
@@ -358,11 +274,20 @@ export default function PaymentSuccess() {
                   onChange={e => setEmail(e.target.value)}
                   placeholder="Enter your email"
                   required
-                  disabled={loading}
+                  disabled={loggingIn}
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link
+                    to="/forgot-password"
+                    state={{ email }}
+                    className="text-sm text-primary hover:underline"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
                 <Input
                   id="password"
                   type="password"
@@ -370,11 +295,11 @@ export default function PaymentSuccess() {
                   onChange={e => setPassword(e.target.value)}
                   placeholder="Enter your password"
                   required
-                  disabled={loading}
+                  disabled={loggingIn}
                 />
               </div>
-              <Button type="submit" disabled={loading} className="w-full">
-                {loading ? (
+              <Button type="submit" disabled={loggingIn} className="w-full">
+                {loggingIn ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Logging in...
@@ -393,7 +318,38 @@ export default function PaymentSuccess() {
     )
   }
 
-  // Show loading state while attempting auto-login
+  if (state.phase === 'success' && state.simulated) {
+    return (
+      <div className="bg-gradient-to-br from-green-50 to-emerald-100 min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
+        <Card className="max-w-md text-center">
+          <CardHeader>
+            <div className="mx-auto mb-4">
+              <CheckCircle className="h-16 w-16 text-green-600" />
+            </div>
+            <CardTitle className="text-2xl text-green-800">
+              Test Payment Completed
+            </CardTitle>
+            <CardDescription className="text-lg">
+              The simulated checkout succeeded. No money was charged and no subscription was activated.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild className="w-full">
+              <Link to="/">Back to Home</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const progressLabel =
+    state.phase === 'success'
+      ? 'Redirecting to your dashboard...'
+      : state.phase === 'polling-subscription'
+        ? 'Activating your subscription...'
+        : 'Confirming payment and logging you in...'
+
   return (
     <div className="bg-gradient-to-br from-green-50 to-emerald-100 min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
       <Card className="max-w-md text-center">
@@ -405,20 +361,23 @@ export default function PaymentSuccess() {
             Payment Successful! 🎉
           </CardTitle>
           <CardDescription className="text-lg">
-            Thank you for your payment. We're setting up your account now.
+            {state.phase === 'success'
+              ? 'Your payment has been confirmed and your subscription is active.'
+              : "Thank you for your payment. We're setting up your account now."}
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="flex flex-col items-center gap-4">
-            <div className="flex items-center justify-center gap-2 text-muted-foreground">
-              <Loader2 className="h-4 w-4 animate-spin" />
-              <span>Confirming payment and logging you in...</span>
-            </div>
-            {!txRef && (
-              <p className="text-sm text-muted-foreground">
-                If this takes too long, you'll be prompted to log in manually.
+        <CardContent className="space-y-4">
+          {pending?.plan && (
+            <div className="rounded-md bg-white/60 border p-3 text-sm">
+              <p className="text-muted-foreground">
+                {pending.plan.name ? `${pending.plan.name} · ` : ''}{formatMonths(pending.plan.months)}
               </p>
-            )}
+              <p className="text-2xl font-bold">{formatCurrency(pending.plan.amount, pending.plan.currency)}</p>
+            </div>
+          )}
+          <div className="flex items-center justify-center gap-2 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>{progressLabel}</span>
           </div>
         </CardContent>
       </Card>
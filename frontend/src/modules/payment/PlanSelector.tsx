@@ -0,0 +1,50 @@
+import type { PaymentPlan } from '../../services/api'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { formatCurrency, formatMonths } from '@/lib/format'
+
+interface PlanSelectorProps {
+  plans: PaymentPlan[]
+  value: number | null
+  onChange: (planId: number) => void
+}
+
+export default function PlanSelector({ plans, value, onChange }: PlanSelectorProps) {
+  return (
+    <RadioGroup
+      value={value === null ? '' : String(value)}
+      onValueChange={id => onChange(Number(id))}
+      name="plan"
+      className="grid gap-3 sm:grid-cols-3"
+    >
+      {plans.map(plan => {
+        const perMonth = Number.parseFloat(plan.price) / Math.max(plan.duration_months, 1)
+        return (
+          <Label
+            key={plan.id}
+            htmlFor={`plan-${plan.id}`}
+            className="relative flex flex-col gap-2 rounded-md border p-4 cursor-pointer has-[:checked]:border-primary has-[:checked]:bg-primary/5"
+          >
+            {plan.is_popular && (
+              <Badge className="absolute -top-2.5 right-3">Most popular</Badge>
+            )}
+            <span className="flex items-center gap-2">
+              <RadioGroupItem value={String(plan.id)} id={`plan-${plan.id}`} />
+              <span className="font-medium">{plan.name || formatMonths(plan.duration_months)}</span>
+            </span>
+            <span className="text-2xl font-bold">{formatCurrency(plan.price, plan.currency)}</span>
+            {plan.duration_months > 1 && !Number.isNaN(perMonth) && (
+              <span className="text-sm font-normal text-muted-foreground">
+                {formatCurrency(perMonth, plan.currency)} / month
+              </span>
+            )}
+            {plan.description && (
+              <span className="text-sm font-normal text-muted-foreground">{plan.description}</span>
+            )}
+          </Label>
+        )
+      })}
+    </RadioGroup>
+  )
+}
@@ -0,0 +1,55 @@
+/**
+ * The checkout the user was last sent to, kept in sessionStorage so the success
+ * page can resume verification after a reload or a redirect that drops the tx_ref
+ */
+
+import type { PaymentProviderId } from './providers'
+
+const PENDING_PAYMENT_KEY = 'pending_payment'
+
+// A checkout older than this is not worth resuming automatically
+const MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+export interface PendingPayment {
+  /** Missing on checkouts started before providers were introduced, which were all Chapa */
+  provider?: PaymentProviderId
+  /** Null when the gateway did not hand back a reference on initiation */
+  txRef: string | null
+  draftId?: string | null
+  email?: string
+  renewal?: boolean
+  /** What was bought, so the success page can repeat the amount */
+  plan?: { name: string; months: number; amount: string; currency: string }
+  startedAt: number
+}
+
+export function savePendingPayment(payment: Omit<PendingPayment, 'startedAt'>): void {
+  try {
+    sessionStorage.setItem(PENDING_PAYMENT_KEY, JSON.stringify({ ...payment, startedAt: Date.now() }))
+  } catch {
+    // Storage can be unavailable (private mode, quota); the URL still carries the reference
+  }
+}
+
+export function loadPendingPayment(): PendingPayment | null {
+  try {
+    const raw = sessionStorage.getItem(PENDING_PAYMENT_KEY)
+    if (!raw) return null
+    const payment = JSON.parse(raw) as PendingPayment
+    if (typeof payment.startedAt !== 'number' || Date.now() - payment.startedAt > MAX_AGE_MS) {
+      sessionStorage.removeItem(PENDING_PAYMENT_KEY)
+      return null
+    }
+    return payment
+  } catch {
+    return null
+  }
+}
+
+export function clearPendingPayment(): void {
+  try {
+    sessionStorage.removeItem(PENDING_PAYMENT_KEY)
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,16 @@
+import type { PromoCodeValidation } from '../../services/api'
+
+/**
+ * Price after a validated promo code. The backend's `discounted_price` wins;
+ * otherwise the discount is applied locally for display only; the gateway
+ * amount is always computed by the backend from the code sent with initiatePayment.
+ */
+export function applyPromo(price: string, promo: PromoCodeValidation | null): string {
+  if (!promo?.valid) return price
+  if (promo.discounted_price) return promo.discounted_price
+  const base = Number.parseFloat(price)
+  const value = Number.parseFloat(promo.discount_value ?? '')
+  if (Number.isNaN(base) || Number.isNaN(value)) return price
+  const discounted = promo.discount_type === 'percent' ? base * (1 - value / 100) : base - value
+  return Math.max(discounted, 0).toFixed(2)
+}
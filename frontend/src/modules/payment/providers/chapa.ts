@@ -0,0 +1,46 @@
+import { confirmPaymentAndLogin, initiatePayment } from '../../../services/api'
+import type { PaymentProvider } from './types'
+
+export const chapaProvider: PaymentProvider = {
+  id: 'chapa',
+  label: 'Chapa',
+  description: 'Telebirr, CBE Birr, bank transfer or card',
+
+  async initiate({ draftId, email, renewal, planId, promoCode }) {
+    const options = { plan_id: planId, promo_code: promoCode }
+    const res = await initiatePayment(
+      renewal ? { draft_id: null, email, renewal: true, ...options } : { draft_id: draftId, email, ...options }
+    )
+    if (!res.ok) return res
+    if (!res.data.checkout_url) {
+      return {
+        ok: false,
+        status: res.status,
+        error: {
+          status: res.status,
+          message: res.data.message || 'No checkout URL was provided by the payment gateway.',
+          fieldErrors: {},
+          body: res.data,
+        },
+      }
+    }
+    return { ok: true, status: res.status, data: { redirectUrl: res.data.checkout_url, txRef: res.data.tx_ref ?? null } }
+  },
+
+  // Chapa sends the reference as 'tx_ref' or 'txRef', in the query string or the hash
+  parseReturnUrl({ search, hash }) {
+    const searchParams = new URLSearchParams(search)
+    const hashParams = new URLSearchParams(hash.replace('#', ''))
+    const txRef =
+      searchParams.get('tx_ref') ||
+      searchParams.get('txRef') ||
+      hashParams.get('tx_ref') ||
+      hashParams.get('txRef')
+    // Chapa does not report the outcome on return; the backend verifies it on confirm
+    return { txRef, outcome: 'unknown' }
+  },
+
+  confirm(txRef, draftId) {
+    return confirmPaymentAndLogin({ payment_ref: txRef, tx_ref: txRef, draft_id: draftId })
+  },
+}
@@ -0,0 +1,18 @@
+import { chapaProvider } from './chapa'
+import { mockProvider } from './mock'
+import type { PaymentProvider } from './types'
+
+export type { CheckoutRequest, CheckoutSession, PaymentProvider, PaymentProviderId, ReturnInfo, ReturnOutcome } from './types'
+export { MOCK_CHECKOUT_PATH } from './mock'
+
+export const mockPaymentsEnabled = import.meta.env.DEV || import.meta.env.VITE_ENABLE_MOCK_PAYMENTS === 'true'
+
+/** Providers offered on the payment page, in display order */
+export const paymentProviders: PaymentProvider[] = mockPaymentsEnabled ? [chapaProvider, mockProvider] : [chapaProvider]
+
+export const defaultPaymentProvider = chapaProvider
+
+/** Unknown or disabled ids fall back to the default so old return URLs keep working */
+export function getPaymentProvider(id: string | null | undefined): PaymentProvider {
+  return paymentProviders.find(provider => provider.id === id) ?? defaultPaymentProvider
+}
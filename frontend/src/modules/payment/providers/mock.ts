@@ -0,0 +1,38 @@
+import type { PaymentProvider, ReturnOutcome } from './types'
+
+export const MOCK_CHECKOUT_PATH = '/payment/mock-checkout'
+
+const OUTCOMES: ReturnOutcome[] = ['success', 'failed', 'cancelled']
+
+/**
+ * Stands in for a gateway during development: checkout happens on a local page
+ * that redirects back to the success route with the outcome the tester picked
+ */
+export const mockProvider: PaymentProvider = {
+  id: 'mock',
+  label: 'Test payment',
+  description: 'Simulated checkout for development, no money is charged',
+  simulated: true,
+
+  async initiate() {
+    const txRef = `mock-${Date.now()}`
+    return {
+      ok: true,
+      status: 200,
+      data: { redirectUrl: `${MOCK_CHECKOUT_PATH}?tx_ref=${encodeURIComponent(txRef)}`, txRef },
+    }
+  },
+
+  parseReturnUrl({ search }) {
+    const params = new URLSearchParams(search)
+    const status = params.get('status') as ReturnOutcome | null
+    return {
+      txRef: params.get('tx_ref'),
+      outcome: status && OUTCOMES.includes(status) ? status : 'unknown',
+    }
+  },
+
+  async confirm() {
+    return { ok: true, status: 200, data: { message: 'Test payment confirmed' } }
+  },
+}
@@ -0,0 +1,37 @@
+import type { PaymentConfirmResponse, Result } from '../../../services/api'
+
+export type PaymentProviderId = 'chapa' | 'mock'
+
+export interface CheckoutRequest {
+  draftId: string | null
+  email: string
+  renewal: boolean
+  planId?: number
+  promoCode?: string
+}
+
+export interface CheckoutSession {
+  /** Where to send the browser to complete the payment */
+  redirectUrl: string
+  /** Null when the gateway only hands the reference back on return */
+  txRef: string | null
+}
+
+/** What the gateway told us when it sent the user back */
+export type ReturnOutcome = 'success' | 'failed' | 'cancelled' | 'unknown'
+
+export interface ReturnInfo {
+  txRef: string | null
+  outcome: ReturnOutcome
+}
+
+export interface PaymentProvider {
+  id: PaymentProviderId
+  label: string
+  description: string
+  /** Simulated providers never activate a real subscription, so there is nothing to poll for */
+  simulated?: boolean
+  initiate: (request: CheckoutRequest) => Promise<Result<CheckoutSession>>
+  parseReturnUrl: (location: { search: string; hash: string }) => ReturnInfo
+  confirm: (txRef: string, draftId?: string) => Promise<Result<PaymentConfirmResponse>>
+}
@@ -3,6 +3,7 @@ import { useSearchParams, useNavigate, Link } from 'react-router-dom'
 import { useLanguage } from '@/content/LanguageContext'
 import { useAuth } from '../auth/AuthContext'
 import { fetchJobSites, fetchPopularCountries } from '../../services/api'
+import type { JobSite, PopularCountry } from '../../services/api'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -12,18 +13,6 @@ import { Globe, ExternalLink, MapPin, Briefcase, Copy, Check, Search, LayoutDash
 import { getCountryFlag } from '@/lib/countryFlags'
 import { getCountryImage } from '@/lib/countryImages'
 
-interface JobSite { 
-  id: number
-  country: string
-  site_name: string
-  site_url: string
-}
-
-interface PopularCountry {
-  country: string
-  site_count: number
-}
-
 export default function SitesPage() {
   const { content } = useLanguage()
   const { user } = useAuth()
@@ -66,11 +55,11 @@ export default function SitesPage() {
     const fetchInitialData = async () => {
       try {
         const popularRes = await fetchPopularCountries()
-        if (popularRes.ok && popularRes.popular_countries) {
-          setPopularCountries(popularRes.popular_countries)
+        if (popularRes.ok) {
+          const popular = popularRes.data.popular_countries || []
+          setPopularCountries(popular)
           // Extract unique countries from popular countries
-          const countries = popularRes.popular_countries.map((c: PopularCountry) => c.country)
-          setAllCountries(countries)
+          setAllCountries(popular.map(c => c.country))
         }
       } catch (error) {
         console.error('Error fetching popular countries:', error)
@@ -99,23 +88,8 @@ export default function SitesPage() {
     setLoading(true)
     try {
       const res = await fetchJobSites(country)
-      console.log('Job sites response for country:', country, res)
-      
-      // Handle different response formats
-      let jobSites: JobSite[] = []
-      if (res.results && Array.isArray(res.results)) {
-        jobSites = res.results
-      } else if (res.data && Array.isArray(res.data)) {
-        jobSites = res.data
-      } else if (Array.isArray(res)) {
-        jobSites = res
-      } else if (res.ok || res.status === 200) {
-        // If response is ok but no data structure, try to extract from response
-        jobSites = []
-      }
-      
-      console.log('Parsed job sites:', jobSites)
-      setSites(jobSites)
+      if (!res.ok) console.error('Error fetching job sites:', res.error)
+      setSites(res.ok ? res.data : [])
     } catch (error) {
       console.error('Error fetching job sites:', error)
       setSites([])
@@ -129,22 +103,8 @@ export default function SitesPage() {
     try {
       // Fetch all sites without country filter
       const res = await fetchJobSites()
-      console.log('All job sites response:', res)
-      
-      // Handle different response formats
-      let jobSites: JobSite[] = []
-      if (res.results && Array.isArray(res.results)) {
-        jobSites = res.results
-      } else if (res.data && Array.isArray(res.data)) {
-        jobSites = res.data
-      } else if (Array.isArray(res)) {
-        jobSites = res
-      } else if (res.ok || res.status === 200) {
-        // If response is ok but no data structure, try to extract from response
-        jobSites = []
-      }
-      
-      console.log('Parsed all job sites:', jobSites)
+      if (!res.ok) console.error('Error fetching all job sites:', res.error)
+      const jobSites = res.ok ? res.data : []
       setSites(jobSites)
       
       // Extract unique countries from all sites and add to country list
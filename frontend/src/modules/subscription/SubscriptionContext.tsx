@@ -0,0 +1,133 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { fetchUserDashboard } from '../../services/api'
+import type { ApiError, DashboardResponse, SubscriptionStatus } from '../../services/api'
+import { getSnapshot } from '../../services/auth'
+import type { AuthState } from '../../services/auth'
+import { useAuth } from '../auth/AuthContext'
+import { getDaysRemaining, isSubscriptionActive, isSubscriptionExpired } from '@/lib/subscription'
+
+export interface PollOptions {
+  /** Number of dashboard fetches before giving up */
+  attempts?: number
+  /** Delay before the first retry; doubles after every attempt */
+  initialDelay?: number
+  maxDelay?: number
+}
+
+interface SubscriptionContextType {
+  status: SubscriptionStatus | null
+  endDate: string | null
+  isActive: boolean
+  /** The subscription ran out, as opposed to never having been paid for */
+  isExpired: boolean
+  daysRemaining: number | null
+  draftId: string | null
+  /** Last dashboard response, shared so pages don't need to fetch it again */
+  dashboard: DashboardResponse | null
+  /** True until the first dashboard response for the current session arrives */
+  loading: boolean
+  error: ApiError | null
+  refresh: () => Promise<DashboardResponse | null>
+  /** Re-fetch with backoff until the subscription is active; resolves to whether it became active */
+  pollUntilActive: (options?: PollOptions) => Promise<boolean>
+}
+
+const SubscriptionContext = createContext<SubscriptionContextType | undefined>(undefined)
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Keyed on who is logged in rather than the raw token, so that a routine
+// access token refresh does not throw away the cached dashboard
+function sessionKeyOf({ token, user }: AuthState): string | null {
+  return token ? String(user?.id ?? user?.username ?? user?.email ?? 'session') : null
+}
+
+export default function SubscriptionProvider({ children }: { children: React.ReactNode }) {
+  const { token, user } = useAuth()
+  const sessionKey = sessionKeyOf({ token, user })
+  const [dashboard, setDashboard] = useState<DashboardResponse | null>(null)
+  const [error, setError] = useState<ApiError | null>(null)
+  // The session the cached dashboard belongs to; anything else means we are still loading
+  const [loadedFor, setLoadedFor] = useState<string | null>(null)
+  const inFlight = useRef<Promise<DashboardResponse | null> | null>(null)
+
+  const refresh = useCallback(() => {
+    if (inFlight.current) return inFlight.current
+    // Read the store directly: callers may poll right after a login, before React re-renders
+    const requestSession = sessionKeyOf(getSnapshot())
+    const load = async () => {
+      if (!requestSession) return null
+      const res = await fetchUserDashboard()
+      // Ignore responses for a session that ended while the request was running
+      if (sessionKeyOf(getSnapshot()) !== requestSession) return null
+      if (res.ok) {
+        setDashboard(res.data)
+        setError(null)
+      } else {
+        setError(res.error)
+      }
+      setLoadedFor(requestSession)
+      return res.ok ? res.data : null
+    }
+    const pending: Promise<DashboardResponse | null> = load().finally(() => {
+      if (inFlight.current === pending) inFlight.current = null
+    })
+    inFlight.current = pending
+    return pending
+  }, [])
+
+  const pollUntilActive = useCallback(
+    async ({ attempts = 6, initialDelay = 1000, maxDelay = 8000 }: PollOptions = {}) => {
+      let delay = initialDelay
+      for (let attempt = 1; attempt <= attempts; attempt++) {
+        const data = await refresh()
+        if (data && isSubscriptionActive(data.subscription_status, data.subscription_end_date)) {
+          return true
+        }
+        if (!getSnapshot().token || attempt === attempts) break
+        await wait(delay)
+        delay = Math.min(delay * 2, maxDelay)
+      }
+      return false
+    },
+    [refresh]
+  )
+
+  useEffect(() => {
+    setDashboard(null)
+    setError(null)
+    setLoadedFor(null)
+    inFlight.current = null
+    if (sessionKey) refresh()
+  }, [sessionKey, refresh])
+
+  const status = dashboard?.subscription_status ?? null
+  const endDate = dashboard?.subscription_end_date ?? null
+
+  return (
+    <SubscriptionContext.Provider
+      value={{
+        status,
+        endDate,
+        isActive: isSubscriptionActive(status, endDate),
+        isExpired: isSubscriptionExpired(status, endDate),
+        daysRemaining: getDaysRemaining(endDate),
+        draftId: dashboard?.draft_id ?? null,
+        dashboard,
+        loading: !!sessionKey && loadedFor !== sessionKey,
+        error,
+        refresh,
+        pollUntilActive,
+      }}
+    >
+      {children}
+    </SubscriptionContext.Provider>
+  )
+}
+
+// eslint-disable-next-line react-refresh/only-export-components
+export function useSubscription() {
+  const ctx = useContext(SubscriptionContext)
+  if (!ctx) throw new Error('useSubscription must be used within SubscriptionProvider')
+  return ctx
+}
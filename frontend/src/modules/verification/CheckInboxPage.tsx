@@ -0,0 +1,61 @@
+import { Link, Navigate, useLocation, useNavigate } from 'react-router-dom'
+import ResendVerificationButton from './ResendVerificationButton'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { CreditCard, MailCheck } from 'lucide-react'
+import { useLanguage } from '@/content/LanguageContext'
+
+interface CheckInboxState {
+  email: string
+  /** Router state for /payment, handed over from MultiStepForm */
+  payment?: Record<string, unknown>
+}
+
+/** Shown right after registration, before payment */
+export default function CheckInboxPage() {
+  const { currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const navigate = useNavigate()
+  const state = useLocation().state as CheckInboxState | null
+
+  if (!state?.email) return <Navigate to="/dashboard" replace />
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 to-indigo-100 min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center space-y-2">
+          <MailCheck className="mx-auto h-14 w-14 text-primary" />
+          <CardTitle className="text-2xl font-bold">{am ? 'ኢሜይልዎን ይመልከቱ' : 'Check Your Inbox'}</CardTitle>
+          <CardDescription className="text-base">
+            {am ? 'የማረጋገጫ ሊንክ ወደዚህ ልከናል፦' : 'We sent a verification link to'}
+            <span className="block font-medium text-foreground break-all">{state.email}</span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            {am
+              ? 'ደረሰኞችዎ እና የክፍያ ማረጋገጫዎችዎ ወደዚህ አድራሻ ይላካሉ፤ ስለዚህ ሊንኩን ይክፈቱ። ካላገኙት የአይፈለጌ መልዕክት ማህደርዎን ይመልከቱ።'
+              : "Receipts and payment confirmations go to this address, so open the link to confirm it's yours. Can't find it? Check your spam folder."}
+          </p>
+
+          <ResendVerificationButton email={state.email} className="text-center" />
+
+          {state.payment && (
+            <Button type="button" className="w-full" size="lg" onClick={() => navigate('/payment', { state: state.payment })}>
+              {am ? 'ወደ ክፍያ ቀጥል' : 'Continue to Payment'}
+              <CreditCard className="ml-2 h-4 w-4" />
+            </Button>
+          )}
+
+          <p className="text-center text-xs text-muted-foreground">
+            {am ? 'ኢሜይሉ የተሳሳተ ነው? ' : 'Wrong address? '}
+            <Link to="/contact" className="text-primary hover:underline">
+              {am ? 'ያግኙን' : 'Contact us'}
+            </Link>
+            {am ? ' እና እናስተካክለዋለን።' : " and we'll correct it."}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
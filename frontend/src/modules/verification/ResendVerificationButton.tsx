@@ -0,0 +1,38 @@
+import { useResendVerification } from './useResendVerification'
+import FieldError from '../apply/FieldError'
+import { Button } from '@/components/ui/button'
+import { Loader2, Send } from 'lucide-react'
+import { useLanguage } from '@/content/LanguageContext'
+import { cn } from '@/lib/utils'
+
+interface ResendVerificationButtonProps {
+  email: string
+  size?: 'default' | 'sm'
+  className?: string
+}
+
+/** "Resend email" with its cooldown countdown and the outcome of the last attempt */
+export default function ResendVerificationButton({ email, size = 'default', className }: ResendVerificationButtonProps) {
+  const { currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const { resend, sending, sent, secondsLeft, error } = useResendVerification(email)
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <Button type="button" variant="outline" size={size} onClick={resend} disabled={!email || sending || secondsLeft > 0}>
+        {sending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+        {secondsLeft > 0
+          ? am
+            ? `በ${secondsLeft} ሰከንድ ውስጥ እንደገና ይላኩ`
+            : `Resend in ${secondsLeft}s`
+          : am
+            ? 'ኢሜይሉን እንደገና ላክ'
+            : 'Resend email'}
+      </Button>
+      {sent && !error && (
+        <p className="text-sm text-green-700">{am ? 'አዲስ የማረጋገጫ ኢሜይል ተልኳል።' : 'A new verification email is on its way.'}</p>
+      )}
+      <FieldError message={error ?? undefined} />
+    </div>
+  )
+}
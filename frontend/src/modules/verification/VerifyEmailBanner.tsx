@@ -0,0 +1,25 @@
+import ResendVerificationButton from './ResendVerificationButton'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { MailWarning } from 'lucide-react'
+import { useLanguage } from '@/content/LanguageContext'
+
+/** Stays on the dashboard until the backend reports the address as verified */
+export default function VerifyEmailBanner({ email }: { email: string }) {
+  const { currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+
+  return (
+    <Alert className="mb-8 border-blue-300 bg-blue-50 text-blue-900">
+      <MailWarning className="h-4 w-4" />
+      <AlertTitle>{am ? 'ኢሜይልዎን ያረጋግጡ' : 'Please verify your email'}</AlertTitle>
+      <AlertDescription className="text-blue-800">
+        <p>
+          {am
+            ? `ደረሰኞች እና የክፍያ ማሳወቂያዎች እንዲደርስዎ ወደ ${email} የላክነውን ሊንክ ይክፈቱ።`
+            : `Open the link we sent to ${email} so receipts and payment updates reach you.`}
+        </p>
+        <ResendVerificationButton email={email} size="sm" className="mt-2" />
+      </AlertDescription>
+    </Alert>
+  )
+}
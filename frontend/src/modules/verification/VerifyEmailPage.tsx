@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { verifyEmail } from '../../services/api'
+import { useAuth } from '../auth/AuthContext'
+import { useSubscription } from '../subscription/SubscriptionContext'
+import ResendVerificationButton from './ResendVerificationButton'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { CheckCircle, Loader2, XCircle } from 'lucide-react'
+import { useLanguage } from '@/content/LanguageContext'
+
+type VerifyState = { phase: 'verifying' } | { phase: 'verified' } | { phase: 'failed'; message: string }
+
+/** Landing page for the link in the verification email: /verify-email?token=... */
+export default function VerifyEmailPage() {
+  const { currentLanguage } = useLanguage()
+  const am = currentLanguage === 'am'
+  const [params] = useSearchParams()
+  const token = params.get('token') ?? ''
+  const { token: session } = useAuth()
+  const { dashboard, refresh } = useSubscription()
+  const [state, setState] = useState<VerifyState>(() =>
+    token
+      ? { phase: 'verifying' }
+      : {
+          phase: 'failed',
+          message: am
+            ? 'ይህ የማረጋገጫ ሊንክ ያልተሟላ ነው። ከኢሜይሉ ሙሉውን ሊንክ ይክፈቱ።'
+            : 'This verification link is incomplete. Open the full link from the email.',
+        }
+  )
+
+  // Tokens are single-use, so StrictMode's second effect run must not send it again
+  const submitted = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!token || submitted.current === token) return
+    submitted.current = token
+    verifyEmail(token).then(async res => {
+      if (!res.ok) {
+        setState({ phase: 'failed', message: res.error.message })
+        return
+      }
+      // Clears the dashboard banner for a signed-in user
+      if (session) await refresh()
+      setState({ phase: 'verified' })
+    })
+    // The session only decides whether to refresh afterwards
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token])
+
+  return (
+    <div className="bg-gradient-to-br from-blue-50 to-indigo-100 min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-lg text-center">
+        {state.phase === 'verifying' && (
+          <CardHeader className="space-y-2">
+            <Loader2 className="mx-auto h-12 w-12 animate-spin text-primary" />
+            <CardTitle className="text-2xl">{am ? 'ኢሜይልዎን በማረጋገጥ ላይ...' : 'Verifying your email...'}</CardTitle>
+          </CardHeader>
+        )}
+
+        {state.phase === 'verified' && (
+          <>
+            <CardHeader className="space-y-2">
+              <CheckCircle className="mx-auto h-14 w-14 text-green-600" />
+              <CardTitle className="text-2xl text-green-800">{am ? 'ኢሜይል ተረጋግጧል' : 'Email Verified'}</CardTitle>
+              <CardDescription className="text-base">
+                {am ? 'ደረሰኞች እና ማሳወቂያዎች አሁን ወደ ኢሜይልዎ ይደርሳሉ።' : 'Receipts and updates will now reach your inbox.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild className="w-full">
+                <Link to={session ? '/dashboard' : '/login'}>
+                  {session ? (am ? 'ወደ ዳሽቦርድ' : 'Go to Dashboard') : am ? 'ይግቡ' : 'Sign In'}
+                </Link>
+              </Button>
+            </CardContent>
+          </>
+        )}
+
+        {state.phase === 'failed' && (
+          <>
+            <CardHeader className="space-y-2">
+              <XCircle className="mx-auto h-14 w-14 text-destructive" />
+              <CardTitle className="text-2xl">{am ? 'ማረጋገጥ አልተቻለም' : "We Couldn't Verify Your Email"}</CardTitle>
+              <CardDescription className="text-base">{state.message}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {dashboard?.email ? (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    {am ? 'ሊንኩ ጊዜው አልፎበት ሊሆን ይችላል። አዲስ ይጠይቁ፦' : 'The link may have expired. Request a new one:'}
+                  </p>
+                  <ResendVerificationButton email={dashboard.email} />
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {am
+                    ? 'ሊንኩ ጊዜው አልፎበት ሊሆን ይችላል። ይግቡ እና ከዳሽቦርድዎ አዲስ ይጠይቁ።'
+                    : 'The link may have expired. Sign in to request a new one from your dashboard.'}
+                </p>
+              )}
+              <Button asChild variant="outline" className="w-full">
+                <Link to={session ? '/dashboard' : '/login'}>
+                  {session ? (am ? 'ወደ ዳሽቦርድ' : 'Go to Dashboard') : am ? 'ይግቡ' : 'Sign In'}
+                </Link>
+              </Button>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  )
+}
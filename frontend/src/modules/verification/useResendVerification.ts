@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+import { resendVerificationEmail } from '../../services/api'
+import { markVerificationSent, secondsUntilResend } from '@/lib/emailVerification'
+
+/**
+ * Resend action for the verification email, with a cooldown that counts down
+ * once a second. The cooldown is shared with every other screen for the address.
+ */
+export function useResendVerification(email: string) {
+  const [secondsLeft, setSecondsLeft] = useState(() => (email ? secondsUntilResend(email) : 0))
+  const [sending, setSending] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Resync when the address changes, e.g. once the dashboard has loaded
+  const [trackedEmail, setTrackedEmail] = useState(email)
+  if (trackedEmail !== email) {
+    setTrackedEmail(email)
+    setSecondsLeft(email ? secondsUntilResend(email) : 0)
+    setSent(false)
+    setError(null)
+  }
+
+  const counting = secondsLeft > 0
+  useEffect(() => {
+    if (!counting) return
+    const interval = setInterval(() => setSecondsLeft(secondsUntilResend(email)), 1000)
+    return () => clearInterval(interval)
+  }, [counting, email])
+
+  const resend = async () => {
+    if (!email || sending || secondsUntilResend(email) > 0) return
+    setSending(true)
+    setError(null)
+    const res = await resendVerificationEmail(email)
+    setSending(false)
+    // A throttled request means one went out recently, so wait either way
+    if (res.ok || res.status === 429) markVerificationSent(email)
+    setSecondsLeft(secondsUntilResend(email))
+    if (res.ok) setSent(true)
+    else setError(res.error.message)
+  }
+
+  return { resend, sending, sent, secondsLeft, error }
+}
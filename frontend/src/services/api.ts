@@ -1,53 +1,466 @@
+import { getAccessToken, refreshAccessToken, logout } from './auth'
+
 // Use environment variable or default to production
 // Note: Using VITE_API_BASE to match auth.ts
 const API_BASE = import.meta.env.VITE_API_BASE || 'https://jobsabroad-2.onrender.com/api'
 
-async function request(path: string, opts: RequestInit = {}) {
-  const token = localStorage.getItem('auth_access_token')
+// ---------------------------------------------------------------------------
+// Result and error types
+// ---------------------------------------------------------------------------
+
+export type ApiError = {
+  /** HTTP status, or 0 when the request never reached the server */
+  status: number
+  message: string
+  /** DRF-style field errors, e.g. { username: ['A user with that username already exists.'] } */
+  fieldErrors: Record<string, string[]>
+  body: unknown
+}
+
+export type Result<T, E = ApiError> =
+  | { ok: true; status: number; data: T }
+  | { ok: false; status: number; error: E }
+
+/** Shape of a paginated DRF ViewSet response */
+export type Paginated<T> = {
+  count: number
+  next: string | null
+  previous: string | null
+  results: T[]
+}
+
+// ---------------------------------------------------------------------------
+// Endpoint types
+// ---------------------------------------------------------------------------
+
+export interface JobSite {
+  id: number
+  country: string
+  site_name: string
+  site_url: string
+}
+
+export interface PopularCountry {
+  country: string
+  site_count: number
+}
+
+export interface PopularCountriesResponse {
+  popular_countries: PopularCountry[]
+}
+
+/** A country applicants can choose on the application form */
+export interface Destination {
+  country: string
+  country_am?: string | null
+}
+
+export interface JobCategory {
+  id: number
+  country: string
+  title: string
+  title_am?: string | null
+}
+
+export interface PreferredCountry {
+  country: string
+  /** 1 is the applicant's first choice */
+  priority: number
+}
+
+export type SubscriptionStatus = 'active' | 'expired' | 'pending' | 'none'
+
+export interface DashboardResponse {
+  country: string | null
+  job_sites: JobSite[]
+  subscription_status: SubscriptionStatus
+  subscription_end_date: string | null
+  draft_id?: string | null
+  email?: string
+  /** Missing from older backends; only an explicit false means unverified */
+  email_verified?: boolean
+  should_prompt_payment?: boolean
+}
+
+export interface UserPayload {
+  id?: number
+  username?: string
+  email?: string
+  name?: string
+  first_name?: string
+  last_name?: string
+}
+
+export interface WorkExperiencePayload {
+  job_title: string
+  company: string
+  country: string
+  /** YYYY-MM-DD */
+  start_date: string
+  /** Null while the applicant still works there */
+  end_date: string | null
+  is_current: boolean
+}
+
+export type LanguageProficiency = 'basic' | 'conversational' | 'fluent' | 'native'
+
+export interface LanguageSkill {
+  language: string
+  proficiency: LanguageProficiency
+}
+
+export interface DesiredJobPayload {
+  country: string
+  title: string
+  /** 1 is the applicant's first choice within that country */
+  priority: number
+  /** Typed by the applicant rather than picked from the job categories */
+  is_other: boolean
+}
+
+export interface RegistrationPayload {
+  first_name: string
+  last_name: string
+  username: string
+  email: string
+  phone_number: string
+  password?: string
+  age: string
+  /** First choice; kept alongside `preferred_countries` for the dashboard */
+  country: string
+  preferred_countries?: PreferredCountry[]
+  desiredJob: string
+  desired_jobs?: DesiredJobPayload[]
+  desiredStartDate: string
+  /** Agent or channel code the applicant arrived with (`?ref=`) */
+  referral_code?: string
+  years_of_experience?: number | null
+  work_experiences?: WorkExperiencePayload[]
+  skills?: string[]
+  languages?: LanguageSkill[]
+  /** Explicit acceptance of the Terms and Conditions on the review step */
+  accepted_terms?: boolean
+}
+
+/** The registration fields an applicant can read back and edit later */
+export type ApplicantProfile = Omit<RegistrationPayload, 'password' | 'referral_code' | 'accepted_terms'>
+
+/** Username and email are fixed after registration */
+export type ProfileUpdate = Partial<Omit<ApplicantProfile, 'username' | 'email'>>
+
+export interface RegistrationResponse {
+  user?: UserPayload
+  draft_id?: string
+  token?: string
+  access?: string
+  refresh?: string
+}
+
+export interface ApplicationDraftResponse {
+  draft_id: string
+  /** Present when reading a saved draft back; stored as the form state it was saved from */
+  application_data?: Record<string, unknown>
+  updated_at?: string
+}
+
+export type AvailabilityField = 'username' | 'email'
+
+export interface AvailabilityResponse {
+  available: boolean
+  /** Free alternatives, only sent for usernames that are taken */
+  suggestions?: string[]
+}
+
+export interface PaymentInitRequest {
+  /** Application draft being paid for; not needed when renewing */
+  draft_id: string | null
+  email: string
+  renewal?: boolean
+  /** Omitted when the plans endpoint is unavailable; the backend then charges its default term */
+  plan_id?: number
+  promo_code?: string
+}
+
+export interface PaymentPlan {
+  id: number
+  name: string
+  duration_months: number
+  /** Decimal string, e.g. "1500.00" */
+  price: string
+  currency: string
+  description?: string
+  is_popular?: boolean
+}
+
+export interface PromoCodeRequest {
+  code: string
+  plan_id?: number
+}
+
+export interface PromoCodeValidation {
+  valid: boolean
+  code: string
+  discount_type?: 'percent' | 'fixed'
+  /** Percentage or amount off, as a decimal string */
+  discount_value?: string
+  /** Price after the discount for the requested plan, when the backend computes it */
+  discounted_price?: string
+  currency?: string
+  message?: string
+}
+
+export interface PaymentInitResponse {
+  status?: string
+  checkout_url?: string
+  tx_ref?: string
+  message?: string
+}
+
+export interface PaymentConfirmRequest {
+  payment_ref: string
+  tx_ref: string
+  draft_id?: string
+}
+
+export type PaymentStatus = 'success' | 'pending' | 'failed'
+
+export interface PaymentRecord {
+  id: number
+  tx_ref: string
+  amount: string
+  currency: string
+  status: PaymentStatus
+  created_at: string
+  chapa_reference?: string | null
+  email?: string
+}
+
+export type DocumentType = 'passport' | 'cv' | 'certificate'
+
+export interface ApplicantDocument {
+  id: number
+  document_type: DocumentType
+  file_name: string
+  file_url: string
+  content_type?: string
+  size?: number
+  uploaded_at: string
+}
+
+export interface UploadOptions {
+  /** Called with the fraction of the file sent so far, 0 to 1 */
+  onProgress?: (fraction: number) => void
+  signal?: AbortSignal
+}
+
+export interface PaymentConfirmResponse {
+  message?: string
+  user?: UserPayload
+  token?: string
+  access?: string
+  refresh?: string
+}
+
+export interface PasswordResetConfirmRequest {
+  /** Both come from the link in the reset email */
+  uid: string
+  token: string
+  new_password: string
+}
+
+export interface PasswordChangeRequest {
+  current_password: string
+  new_password: string
+}
+
+export interface MessageResponse {
+  message?: string
+  detail?: string
+}
+
+export type LoginCodeChannel = 'sms' | 'email'
+
+export interface LoginCodeRequestResponse {
+  channel?: LoginCodeChannel
+  /** Where the code went, masked, e.g. "+251 9•• ••• •67" */
+  destination?: string
+  /** Seconds until another code may be requested */
+  resend_in?: number
+  /** Seconds the code stays valid */
+  expires_in?: number
+}
+
+export interface LoginCodeVerifyResponse {
+  access?: string
+  refresh?: string
+  user?: UserPayload
+}
+
+// ---------------------------------------------------------------------------
+// Request helpers
+// ---------------------------------------------------------------------------
+
+const MESSAGE_KEYS = ['error', 'message', 'detail']
+
+function toApiError(status: number, body: unknown): ApiError {
+  const fieldErrors: Record<string, string[]> = {}
+  let message: string | undefined
+
+  if (body && typeof body === 'object' && !Array.isArray(body)) {
+    for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+      if (MESSAGE_KEYS.includes(key)) {
+        if (!message && typeof value === 'string') message = value
+        continue
+      }
+      if (Array.isArray(value)) {
+        const messages = value.filter((v): v is string => typeof v === 'string')
+        if (messages.length > 0) fieldErrors[key] = messages
+      } else if (typeof value === 'string') {
+        fieldErrors[key] = [value]
+      }
+    }
+  }
+
+  if (!message) {
+    // Fall back to the first field error so callers always have something to show
+    const [first] = Object.values(fieldErrors)
+    message = first?.[0] || `Request failed with status ${status}`
+  }
+
+  return { status, message, fieldErrors, body }
+}
+
+type RequestOptions = RequestInit & {
+  /** Send the stored access token. Defaults to true. */
+  auth?: boolean
+}
+
+async function send(path: string, opts: RequestInit, token: string | null) {
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     ...(token ? { Authorization: `Bearer ${token}` } : {}),
   }
-  const res = await fetch(`${API_BASE}${path}`, { ...opts, headers })
-  const data = await res.json().catch(() => ({}))
-  
-  // If data is an array, preserve it as an array (don't spread it)
-  if (Array.isArray(data)) {
-    return { status: res.status, ok: res.ok, results: data, data: data }
+  return fetch(`${API_BASE}${path}`, { ...opts, headers })
+}
+
+async function request<T>(path: string, { auth = true, ...opts }: RequestOptions = {}): Promise<Result<T>> {
+  const token = auth ? getAccessToken() : null
+
+  let res: Response
+  try {
+    res = await send(path, opts, token)
+    // Access tokens are short-lived: refresh once and replay the original request.
+    // A refresh that fails to reach the server throws into the network error below
+    // and keeps the tokens; only a rejected refresh token ends the session.
+    if (res.status === 401 && token) {
+      const refreshed = await refreshAccessToken()
+      if (!refreshed) {
+        logout()
+      } else {
+        res = await send(path, opts, refreshed)
+      }
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Network error'
+    return { ok: false, status: 0, error: { status: 0, message, fieldErrors: {}, body: null } }
   }
-  
-  // For objects, spread normally but check for array-like objects
-  const result = { status: res.status, ok: res.ok, ...data }
-  
-  // Check if the spread created an array-like object (numeric keys)
-  const numericKeys = Object.keys(result).filter(key => /^\d+$/.test(key))
-  if (numericKeys.length > 0 && !result.results && !result.data) {
-    // Convert back to array
-    const sortedKeys = numericKeys.sort((a, b) => parseInt(a) - parseInt(b))
-    const arrayData = sortedKeys.map(key => result[parseInt(key) as keyof typeof result]).filter(item => item !== undefined && item !== null)
-    return { status: res.status, ok: res.ok, results: arrayData, data: arrayData }
+
+  const body: unknown = await res.json().catch(() => null)
+  if (!res.ok) {
+    return { ok: false, status: res.status, error: toApiError(res.status, body) }
   }
-  
-  return result
+  return { ok: true, status: res.status, data: body as T }
+}
+
+type UploadResponse = { status: number; body: unknown }
+
+// fetch() can't report upload progress, so multipart uploads go through XHR
+function sendMultipart(path: string, form: FormData, token: string | null, { onProgress, signal }: UploadOptions) {
+  return new Promise<UploadResponse>((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('POST', `${API_BASE}${path}`)
+    // No Content-Type: the browser sets it with the multipart boundary
+    if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`)
+    xhr.upload.onprogress = e => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total)
+    }
+    xhr.onload = () => {
+      let body: unknown = null
+      try {
+        body = xhr.responseText ? JSON.parse(xhr.responseText) : null
+      } catch {
+        // Non-JSON error pages leave body null
+      }
+      resolve({ status: xhr.status, body })
+    }
+    xhr.onerror = () => reject(new Error('Network error'))
+    xhr.onabort = () => reject(new Error('Upload cancelled'))
+    if (signal?.aborted) return reject(new Error('Upload cancelled'))
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true })
+    xhr.send(form)
+  })
 }
 
-export async function submitApplicationDraft(payload: any) {
+/**
+ * Normalizes the list formats the backend may return (a plain array,
+ * a paginated DRF response or a `{ data: [] }` wrapper) into an array.
+ */
+export function normalizeList<T>(body: T[] | Paginated<T> | { data: T[] } | null | undefined): T[] {
+  if (!body) return []
+  if (Array.isArray(body)) return body
+  if ('results' in body && Array.isArray(body.results)) return body.results
+  if ('data' in body && Array.isArray(body.data)) return body.data
+  return []
+}
+
+async function requestList<T>(path: string): Promise<Result<T[]>> {
+  const res = await request<T[] | Paginated<T> | { data: T[] }>(path, { method: 'GET' })
+  if (!res.ok) return res
+  return { ok: true, status: res.status, data: normalizeList(res.data) }
+}
+
+// ---------------------------------------------------------------------------
+// Endpoints
+// ---------------------------------------------------------------------------
+
+export async function submitApplicationDraft(payload: object) {
   // The backend for submit-application expects the payload to be nested under an "application_data" key.
   const body = JSON.stringify({ application_data: payload })
   // This endpoint also requires authentication, so the user must be logged in.
-  return request('/submit-application/', { method: 'POST', body })
+  return request<ApplicationDraftResponse>('/submit-application/', { method: 'POST', body })
+}
+
+export async function checkAvailability(field: AvailabilityField, value: string) {
+  const params = new URLSearchParams({ field, value })
+  return request<AvailabilityResponse>(`/check-availability/?${params}`, { method: 'GET', auth: false })
+}
+
+export async function fetchApplicationDraft() {
+  return request<ApplicationDraftResponse>('/submit-application/', { method: 'GET' })
+}
+
+export async function initiatePayment(payload: PaymentInitRequest) {
+  return request<PaymentInitResponse>('/initialize-payment/', { method: 'POST', body: JSON.stringify(payload) })
+}
+
+export async function fetchPaymentPlans() {
+  return requestList<PaymentPlan>('/payment-plans/')
 }
 
-export async function initiatePayment(payload: any) {
-  return request('/initialize-payment/', { method: 'POST', body: JSON.stringify(payload) })
+export async function validatePromoCode(payload: PromoCodeRequest) {
+  return request<PromoCodeValidation>('/promo-codes/validate/', { method: 'POST', body: JSON.stringify(payload) })
 }
 
-export async function confirmPaymentAndLogin(payload: any) {
-  return request('/payments/confirm/', { method: 'POST', body: JSON.stringify(payload) })
+export async function confirmPaymentAndLogin(payload: PaymentConfirmRequest) {
+  return request<PaymentConfirmResponse>('/payments/confirm/', { method: 'POST', body: JSON.stringify(payload) })
+}
+
+export async function fetchPaymentHistory() {
+  return requestList<PaymentRecord>('/payments/history/')
 }
 
 export async function fetchUserDashboard() {
-  return request('/dashboard/', { method: 'GET' })
+  return request<DashboardResponse>('/dashboard/', { method: 'GET' })
 }
 
 export async function fetchJobSites(country?: string) {
@@ -55,66 +468,131 @@ export async function fetchJobSites(country?: string) {
   // When no country is provided, return all sites
   let url = '/job-sites/'
   if (country && country !== 'all') {
-    // Try exact match first (case-insensitive)
     url = `/job-sites/?country=${encodeURIComponent(country)}`
   }
-  
-  const res = await request(url, { method: 'GET' })
-  console.log('fetchJobSites raw response:', { url, country, status: res.status, ok: res.ok, keys: Object.keys(res) })
-  
-  // Handle paginated response from DRF ViewSet (most common format)
-  if (res.results && Array.isArray(res.results)) {
-    console.log('Found results array with', res.results.length, 'items')
-    return { ...res, ok: true, data: res.results, status: res.status || 200 }
-  }
-  
-  // Handle non-paginated response (direct array) - less common but possible
-  if (Array.isArray(res)) {
-    console.log('Response is direct array with', res.length, 'items')
-    return { ok: true, data: res, results: res, status: 200 }
-  }
-  
-  // If response has data property
-  if (res.data && Array.isArray(res.data)) {
-    console.log('Found data array with', res.data.length, 'items')
-    return { ...res, ok: true, results: res.data, status: res.status || 200 }
-  }
-  
-  // Handle array-like objects (numeric keys) - convert to array
-  // This happens when an array is spread into an object: {...[item1, item2]} becomes {0: item1, 1: item2}
-  const numericKeys = Object.keys(res).filter(key => /^\d+$/.test(key) && !['status', 'ok'].includes(key))
-  if (numericKeys.length > 0 && (res.status === 200 || res.ok)) {
-    // Sort numeric keys and extract values
-    const sortedKeys = numericKeys.sort((a, b) => parseInt(a) - parseInt(b))
-    const arrayData = sortedKeys.map(key => res[parseInt(key) as keyof typeof res]).filter(item => item !== undefined && item !== null)
-    console.log('Found array-like object with', arrayData.length, 'items, converted to array')
-    return { ok: true, results: arrayData, data: arrayData, status: res.status || 200 }
+  return requestList<JobSite>(url)
+}
+
+export async function fetchPopularCountries() {
+  return request<PopularCountriesResponse>('/popular-countries/', { method: 'GET' })
+}
+
+export async function fetchDestinations() {
+  return requestList<Destination>('/destinations/')
+}
+
+export async function fetchJobCategories() {
+  return requestList<JobCategory>('/job-categories/')
+}
+
+export async function fetchDocuments() {
+  return requestList<ApplicantDocument>('/documents/')
+}
+
+export async function uploadDocument(
+  documentType: DocumentType,
+  file: File,
+  options: UploadOptions = {}
+): Promise<Result<ApplicantDocument>> {
+  const form = new FormData()
+  form.append('document_type', documentType)
+  form.append('file', file)
+  const token = getAccessToken()
+
+  let res: UploadResponse
+  try {
+    res = await sendMultipart('/documents/', form, token, options)
+    // Same refresh-and-replay as request(); a large upload can outlive the access token
+    if (res.status === 401 && token) {
+      const refreshed = await refreshAccessToken()
+      if (!refreshed) {
+        logout()
+      } else {
+        options.onProgress?.(0)
+        res = await sendMultipart('/documents/', form, refreshed, options)
+      }
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Network error'
+    return { ok: false, status: 0, error: { status: 0, message, fieldErrors: {}, body: null } }
   }
-  
-  // If status is 200/ok but no recognizable data structure, log for debugging
-  if (res.status === 200 || res.ok) {
-    console.warn('Response is ok but no recognizable data structure:', res)
-    return { ...res, ok: true, results: [], data: [] }
+
+  if (res.status < 200 || res.status >= 300) {
+    return { ok: false, status: res.status, error: toApiError(res.status, res.body) }
   }
-  
-  console.error('Unexpected response format:', res)
-  return { ...res, ok: false, results: [], data: [] }
+  return { ok: true, status: res.status, data: res.body as ApplicantDocument }
 }
 
-export async function fetchPopularCountries() {
-  return request('/popular-countries/', { method: 'GET' })
+export async function deleteDocument(id: number) {
+  return request<null>(`/documents/${id}/`, { method: 'DELETE' })
+}
+
+export async function fetchProfile() {
+  return request<ApplicantProfile>('/profile/', { method: 'GET' })
+}
+
+export async function updateProfile(payload: ProfileUpdate) {
+  return request<ApplicantProfile>('/profile/', { method: 'PATCH', body: JSON.stringify(payload) })
+}
+
+export async function requestPasswordReset(email: string) {
+  return request<MessageResponse>('/password-reset/', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+    auth: false,
+  })
+}
+
+export async function confirmPasswordReset(payload: PasswordResetConfirmRequest) {
+  return request<MessageResponse>('/password-reset/confirm/', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+    auth: false,
+  })
+}
+
+export async function changePassword(payload: PasswordChangeRequest) {
+  return request<MessageResponse>('/change-password/', { method: 'POST', body: JSON.stringify(payload) })
+}
+
+export async function verifyEmail(token: string) {
+  return request<MessageResponse>('/verify-email/', {
+    method: 'POST',
+    body: JSON.stringify({ token }),
+    auth: false,
+  })
+}
+
+export async function resendVerificationEmail(email: string) {
+  return request<MessageResponse>('/verify-email/resend/', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+    auth: false,
+  })
 }
 
-export async function registerUser(payload: any) {
+/** `identifier` is an email address or an E.164 phone number */
+export async function requestLoginCode(identifier: string) {
+  return request<LoginCodeRequestResponse>('/otp/request/', {
+    method: 'POST',
+    body: JSON.stringify({ identifier }),
+    auth: false,
+  })
+}
+
+export async function verifyLoginCode(identifier: string, code: string) {
+  return request<LoginCodeVerifyResponse>('/otp/verify/', {
+    method: 'POST',
+    body: JSON.stringify({ identifier, code }),
+    auth: false,
+  })
+}
+
+export async function registerUser(payload: RegistrationPayload) {
   // Registration doesn't require auth, so make a direct request without token
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  }
-  const res = await fetch(`${API_BASE}/register/`, { 
-    method: 'POST', 
+  return request<RegistrationResponse>('/register/', {
+    method: 'POST',
     body: JSON.stringify(payload),
-    headers 
+    auth: false,
   })
-  const data = await res.json().catch(() => ({}))
-  return { status: res.status, ok: res.ok, ...data }
 }
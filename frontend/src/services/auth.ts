@@ -1,11 +1,135 @@
-// Simple auth service for JWT handling
+// Auth store: the single source of truth for the JWT session.
+// Tokens and the cached profile live in localStorage; everything else
+// (AuthContext, guards, the API client) reads and writes them through here.
+import { registerUser, verifyLoginCode } from './api';
+import type { LoginCodeVerifyResponse, RegistrationPayload, Result, UserPayload } from './api';
+
 export type AuthTokens = { access: string; refresh: string };
 
+export type AuthUser = {
+  id?: number;
+  username?: string;
+  name?: string;
+  email?: string;
+  isAdmin: boolean;
+};
+
+export type AuthState = {
+  token: string | null;
+  user: AuthUser | null;
+};
+
+/** Any backend response that may carry a token pair and user info */
+export type TokenResponse = {
+  access?: string;
+  token?: string;
+  refresh?: string;
+  user?: UserPayload;
+};
+
+type JwtClaims = {
+  user_id?: number;
+  username?: string;
+  email?: string;
+  name?: string;
+  is_staff?: boolean;
+  groups?: unknown;
+  exp?: number;
+};
+
+type StoredProfile = { name?: string; email?: string };
+
 const ACCESS_KEY = 'auth_access_token';
 const REFRESH_KEY = 'auth_refresh_token';
+const USER_KEY = 'auth_user';
 
 const API_BASE = import.meta.env.VITE_API_BASE || 'https://jobsabroad-2.onrender.com/api';
 
+export function parseJwt(token: string | null): JwtClaims | null {
+  if (!token) return null;
+  try {
+    const payload = token.split('.')[1];
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    return JSON.parse(decodeURIComponent(escape(json)));
+  } catch {
+    return null;
+  }
+}
+
+export function isAdminToken(token: string | null): boolean {
+  const claims = parseJwt(token);
+  if (!claims) return false;
+  if (claims.is_staff) return true;
+  const groups = claims.groups || [];
+  return Array.isArray(groups) && groups.map(g => String(g).toLowerCase()).includes('admin');
+}
+
+function readProfile(): StoredProfile | null {
+  const raw = localStorage.getItem(USER_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+function buildUser(token: string): AuthUser {
+  const claims = parseJwt(token) || {};
+  const profile = readProfile() || {};
+  return {
+    id: claims.user_id,
+    username: claims.username,
+    name: profile.name || claims.name || claims.username,
+    email: profile.email || claims.email,
+    isAdmin: isAdminToken(token),
+  };
+}
+
+function readState(): AuthState {
+  const token = localStorage.getItem(ACCESS_KEY);
+  return { token, user: token ? buildUser(token) : null };
+}
+
+// ---------------------------------------------------------------------------
+// Subscription
+// ---------------------------------------------------------------------------
+
+let state: AuthState = readState();
+const listeners = new Set<() => void>();
+
+function emit() {
+  state = readState();
+  listeners.forEach(listener => listener());
+}
+
+/** useSyncExternalStore-compatible subscribe */
+export function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSnapshot(): AuthState {
+  return state;
+}
+
+// Other tabs write the same localStorage keys; the `storage` event only fires
+// in the tabs that did not make the change, so re-reading here keeps every
+// open tab on the same session after a login, refresh or logout elsewhere.
+// A null key means localStorage.clear() was called.
+const SESSION_KEYS = [ACCESS_KEY, REFRESH_KEY, USER_KEY];
+
+window.addEventListener('storage', event => {
+  if (event.storageArea !== localStorage) return;
+  if (event.key === null || SESSION_KEYS.includes(event.key)) emit();
+});
+
+// ---------------------------------------------------------------------------
+// Token access
+// ---------------------------------------------------------------------------
+
 function saveTokens(tokens: AuthTokens) {
   localStorage.setItem(ACCESS_KEY, tokens.access);
   localStorage.setItem(REFRESH_KEY, tokens.refresh);
@@ -15,11 +139,37 @@ export function getAccessToken(): string | null {
   return localStorage.getItem(ACCESS_KEY);
 }
 
-export function clearTokens() {
-  localStorage.removeItem(ACCESS_KEY);
-  localStorage.removeItem(REFRESH_KEY);
+export function getRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_KEY);
 }
 
+function toProfile(user: UserPayload): StoredProfile {
+  const fullName = `${user.first_name || ''} ${user.last_name || ''}`.trim();
+  return { name: user.name || fullName || user.username, email: user.email };
+}
+
+/**
+ * Stores the token pair (and user info, when present) from a login,
+ * registration or payment confirmation response.
+ * Returns false when the response did not contain an access token.
+ */
+export function applyTokens(response: TokenResponse): boolean {
+  const access = response.access || response.token;
+  if (access) {
+    localStorage.setItem(ACCESS_KEY, access);
+    if (response.refresh) localStorage.setItem(REFRESH_KEY, response.refresh);
+  }
+  if (response.user) {
+    localStorage.setItem(USER_KEY, JSON.stringify(toProfile(response.user)));
+  }
+  if (access || response.user) emit();
+  return !!access;
+}
+
+// ---------------------------------------------------------------------------
+// Session actions
+// ---------------------------------------------------------------------------
+
 export async function login(usernameOrEmail: string, password: string): Promise<AuthTokens> {
   const res = await fetch(`${API_BASE}/token/`, {
     method: 'POST',
@@ -32,38 +182,74 @@ export async function login(usernameOrEmail: string, password: string): Promise<
   const data = await res.json();
   const tokens: AuthTokens = { access: data.access, refresh: data.refresh };
   saveTokens(tokens);
+  emit();
   return tokens;
 }
 
-export function parseJwt(token: string | null): any | null {
-  if (!token) return null;
-  try {
-    const payload = token.split('.')[1];
-    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
-    return JSON.parse(decodeURIComponent(escape(json)));
-  } catch {
-    return null;
+/**
+ * Passwordless sign-in: exchanges a one-time code for the same token pair
+ * `login()` gets. Returns the API result so callers can show lockout details.
+ */
+export async function loginWithCode(identifier: string, code: string): Promise<Result<LoginCodeVerifyResponse>> {
+  const res = await verifyLoginCode(identifier, code);
+  if (res.ok && !applyTokens(res.data)) {
+    const error = { status: res.status, message: 'Missing token', fieldErrors: {}, body: res.data };
+    return { ok: false, status: res.status, error };
   }
+  return res;
 }
 
-export function isAdminToken(token: string | null): boolean {
-  const claims = parseJwt(token);
-  if (!claims) return false;
-  if (claims.is_staff) return true;
-  const groups: string[] = claims.groups || [];
-  return Array.isArray(groups) && groups.map(g => String(g).toLowerCase()).includes('admin');
+/** Registers the applicant and signs them in when the backend returns tokens. */
+export async function register(payload: RegistrationPayload) {
+  const res = await registerUser(payload);
+  if (res.ok) applyTokens(res.data);
+  return res;
 }
 
-export async function fetchDashboard(): Promise<any> {
-  const access = getAccessToken();
-  if (!access) throw new Error('No token');
-  const res = await fetch(`${API_BASE}/dashboard/`, {
-    headers: { Authorization: `Bearer ${access}` },
+export function logout() {
+  localStorage.removeItem(ACCESS_KEY);
+  localStorage.removeItem(REFRESH_KEY);
+  localStorage.removeItem(USER_KEY);
+  emit();
+}
+
+// Concurrent 401s share a single refresh request instead of racing each other
+let refreshInFlight: Promise<string | null> | null = null;
+
+async function requestNewAccessToken(): Promise<string | null> {
+  const refresh = getRefreshToken();
+  if (!refresh) return null;
+  // A network failure throws from here on purpose: that isn't a rejected token,
+  // so the session must survive it
+  const res = await fetch(`${API_BASE}/token/refresh/`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refresh }),
   });
-  if (!res.ok) throw new Error('Failed to fetch dashboard');
-  return res.json();
+  if (!res.ok) {
+    // Another tab may have rotated the refresh token while this request was in flight
+    const current = getRefreshToken();
+    return current && current !== refresh ? getAccessToken() : null;
+  }
+  const data = await res.json().catch(() => null);
+  if (!data?.access) return null;
+  // SimpleJWT only returns a new refresh token when rotation is enabled
+  saveTokens({ access: data.access, refresh: data.refresh || refresh });
+  emit();
+  return data.access;
 }
 
-export function logout() {
-  clearTokens();
+/**
+ * Exchanges the stored refresh token for a new access token.
+ * Resolves to null when there is no refresh token or it was rejected, and
+ * rejects when the refresh endpoint couldn't be reached; only null means the
+ * session is over.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = requestNewAccessToken().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
 }
@@ -2,6 +2,8 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_BASE?: string
+  /** Offer the simulated payment provider outside of development */
+  readonly VITE_ENABLE_MOCK_PAYMENTS?: string
 }
 
 interface ImportMeta {